@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { TestService } from '@/lib/api/testService';
 import { UserProfile } from '@/types/messaging';
 import ConversationList from '@/components/conversation/ConversationList';
+import { WebSocketProvider } from '@/contexts/WebSocketContext';
 
 export default function Home() {
   // State for bot creation
@@ -144,10 +145,14 @@ export default function Home() {
         </button>
       </div>
 
-      {/* Conversation interfaces */}
+      {/* Conversation interfaces, each signed in as its own bot with its own socket */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-        <ConversationList bots={bots} instanceId="instance1" />
-        <ConversationList bots={bots} instanceId="instance2" />
+        <WebSocketProvider>
+          <ConversationList bots={bots} instanceId="instance1" />
+        </WebSocketProvider>
+        <WebSocketProvider>
+          <ConversationList bots={bots} instanceId="instance2" />
+        </WebSocketProvider>
       </div>
     </div>
   );
@@ -7,11 +7,57 @@ import {
   ConversationType, 
   MessageType, 
   ChatRoleType,
+  ConversationChannelMessage,
   ConversationChannelMessageReaction,
-  MessageMentionDto
+  MessageMentionDto,
+  SendMessageDto,
+  MessageMentionEventPayload,
+  MessageReactionEventPayload
 } from '@/types/messaging';
+import { AlertCircle, Check, CheckCheck, Clock, LucideIcon } from 'lucide-react';
 import { ConversationService } from '@/lib/api/conversationService';
-import { WebSocketService } from '@/lib/websocket/websocketService';
+import { RequestCanceller, isCancelledError } from '@/lib/api/cancellation';
+import { UploadProgress } from '@/lib/api/upload';
+import { ChunkedUploader } from '@/lib/api/chunkedUpload';
+import { createImagePipeline } from '@/lib/attachments/imageProcessors';
+import { evaluateAttachments } from '@/lib/attachments/policy';
+import { AttachmentPolicyError, AttachmentRejection } from '@/lib/attachments/errors';
+import {
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError
+} from '@/lib/api/errors';
+import { WebSocketListenerScope } from '@/lib/websocket/websocketService';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { useMessageHistory } from '@/hooks/useMessageHistory';
+import { useMessagingStore } from '@/hooks/useMessagingStore';
+import { selectConversations, selectMembers, selectTypingUsers, shallowEqual } from '@/lib/store/selectors';
+import { OutboxItem } from '@/lib/websocket/outbox';
+import { applyOptimistic, createOptimisticMessage } from '@/lib/messages/optimistic';
+import { UnreadCounts, UnreadTracker, getUnreadTotal } from '@/lib/messages/unreadTracker';
+import { computeReadReceipts } from '@/lib/messages/readReceipts';
+import { OwnPresenceStatus } from '@/lib/presence/presenceManager';
+import { MessageDeliveryState, computeDeliveryStates } from '@/lib/messages/deliveryState';
+import { serverClock } from '@/lib/time/serverClock';
+import { toMillis } from '@/lib/time/timestamps';
+import { formatDateTime, formatRelativeTime, formatTime } from '@/lib/time/format';
+import { useNow } from '@/hooks/useNow';
+import { generateId } from '@/lib/utils';
+import PresenceDot from './PresenceDot';
+
+// Attachments larger than this are uploaded in resumable parts
+const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+
+// Ticks shown next to the time on the user's own messages
+const DELIVERY_ICONS: Record<MessageDeliveryState, { icon: LucideIcon; label: string; className: string }> = {
+  pending: { icon: Clock, label: 'Sending', className: '' },
+  sent: { icon: Check, label: 'Sent', className: '' },
+  delivered: { icon: CheckCheck, label: 'Delivered', className: '' },
+  read: { icon: CheckCheck, label: 'Read', className: 'text-sky-300' },
+  failed: { icon: AlertCircle, label: 'Not sent', className: 'text-red-300' },
+};
 
 type ConversationListProps = {
   bots: UserProfile[];
@@ -20,13 +66,59 @@ type ConversationListProps = {
 
 export default function ConversationList({ bots, instanceId }: ConversationListProps) {
   const [selectedBot, setSelectedBot] = useState<UserProfile | null>(null);
-  const [conversations, setConversations] = useState<ConversationChannel[]>([]);
+  // Entities and presence for this instance's user, kept in sync with its provider's socket
+  const {
+    store,
+    presence,
+    attachToService,
+    connect,
+    disconnect: disconnectSocket,
+    setUserId,
+    joinConversation,
+    markMessagesRead,
+    onMessageEvent,
+    sendTypingStart,
+    sendTypingStop,
+    retryOutboxItem,
+    connectionError,
+  } = useWebSocket();
+  // Conversations with their members, as the sidebar shows them
+  const storedConversations = useMessagingStore(store, selectConversations, shallowEqual);
+  const membersByConversation = useMessagingStore(store, state => state.membersByConversation);
+  const users = useMessagingStore(store, state => state.users);
+  const conversations = useMemo(() => storedConversations.map((conversation): ConversationChannel => ({
+    ...conversation,
+    members: Object.values(membersByConversation[conversation.id] ?? {})
+      .map(member => ({ ...member, user: users[member.userId] })),
+  })), [storedConversations, membersByConversation, users]);
   const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [messages, setMessages] = useState<any[]>([]);
+  const {
+    messages,
+    hasMoreBefore,
+    hasMoreAfter,
+    isLoadingOlder,
+    isLoadingNewer,
+    highlightedMessageId,
+    loadLatest,
+    jumpToMessage,
+    jumpToLatest,
+    reset: resetHistory,
+    containerRef: messagesContainerRef,
+    onScroll: handleMessagesScroll,
+  } = useMessageHistory({ userId: selectedBot?.userId, store: store });
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  const [unreadTracker] = useState(() => new UnreadTracker());
+  const [unreadCounts, setUnreadCounts] = useState<UnreadCounts>({});
+  const [ownPresence, setOwnPresence] = useState<OwnPresenceStatus>('online');
+  const [preferredPresence, setPreferredPresence] = useState<OwnPresenceStatus>('online');
+  // Read position when the selected conversation was opened; the unread divider goes after it
+  const [unreadSince, setUnreadSince] = useState<{ conversationId: string; lastReadAt?: string } | null>(null);
+  // Reference point for relative times
+  const now = useNow();
   
   // Conversation management states
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -54,23 +146,29 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     selectedConversationRef.current = selectedConversation;
   }, [selectedBot, isConnected, selectedConversation]);
   
-  // Create a WebSocketService instance for this component
-  const wsServiceRef = useRef<WebSocketService | null>(null);
+  // Tell the server and clear the local unread counts
+  const markConversationRead = useCallback((conversationId: string) => {
+    markMessagesRead(conversationId);
+    unreadTracker.markRead(conversationId);
+  }, [markMessagesRead, unreadTracker]);
+
+  // Cancels conversation loads superseded by a newer selection
+  const [requestCanceller] = useState(() => new RequestCanceller());
+  useEffect(() => () => requestCanceller.cancelAll(), [requestCanceller]);
   
-  // Initialize WebSocketService on component mount
+  // Listen on this instance's socket; the provider attaches the listeners again whenever it replaces the service
   useEffect(() => {
-    // Only initialize once
-    if (!wsServiceRef.current) {
-      console.log(`[${instanceId}] Initializing WebSocketService`);
-      wsServiceRef.current = new WebSocketService(`wss://messaging-api.cerebralvalley.ai/messaging`);
-    }
-    
-    // Set up event listeners
-    const setupListeners = () => {
-      if (!wsServiceRef.current) return;
-      
+    // Membership events don't carry the new count
+    const adjustMemberCount = (conversationId: string, delta: number) => {
+      const conversation = store.getState().conversations[conversationId];
+      if (!conversation) return;
+      store.upsertConversations([
+        { id: conversationId, memberCount: Math.max(0, (conversation.memberCount || 0) + delta) }
+      ]);
+    };
+    const setupListeners = (scope: WebSocketListenerScope) => {
       // Status change handler
-      wsServiceRef.current.onStatusChange((status) => {
+      scope.onStatusChange((status) => {
         console.log(`[${instanceId}] WebSocket status changed to: ${status}`);
         setConnectionStatus(status);
         setIsConnected(status === 'connected');
@@ -78,184 +176,51 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         if (status === 'connected' && selectedBotRef.current) {
           console.log(`[${instanceId}] Connected with bot ${selectedBotRef.current}`);
           setFetchTrigger(prev => prev + 1);
-          
-          // Automatically join all conversation rooms when we connect
-          if (conversations.length > 0) {
-            console.log(`[${instanceId}] Auto-joining all conversation rooms after connection`);
-            conversations.forEach(conversation => {
-              console.log(`[${instanceId}] Auto-joining conversation room: ${conversation.id}`);
-              wsServiceRef.current?.joinConversation(conversation.id);
-            });
-          }
-        }
-      });
-      
-      // Message event handler
-      wsServiceRef.current.onEventLog((events) => {
-        const messageEvents = events.filter(e => e.type === 'message' && e.data?.received);
-        if (messageEvents.length > 0) {
-          const latestEvent = messageEvents[messageEvents.length - 1];
-          const message = latestEvent.data?.message;
-          
-          if (message) {
-            // Only add messages for the currently selected conversation
-            if (selectedConversation && message.conversationId === selectedConversation) {
-              console.log(`[${instanceId}] Received message for conversation ${message.conversationId}:`, message);
-              setMessages(prev => {
-                // Avoid duplicate messages
-                if (prev.some(m => m.id === message.id)) {
-                  return prev;
-                }
-                return [...prev, message];
-              });
-            }
-          }
+          // Previously joined rooms are rejoined by the WebSocketService itself
         }
       });
       
-      // Update the WebSocket event handlers for message events
-      wsServiceRef.current.onMessageEvent('message:new', (data) => {
-        console.log(`[${instanceId}] Received message:new event:`, JSON.stringify(data, null, 2));
-        
-        // Extract the message object correctly based on the structure
-        let message;
-        if (data.message) {
-          // Format: { message: {...}, conversationId: "...", senderId: "..." }
-          message = data.message;
-        } else {
-          // Format: { id: "...", conversationId: "...", ... }
-          message = data;
-        }
-        
-        console.log(`[${instanceId}] Extracted message:`, JSON.stringify(message, null, 2));
+      // New, edited, deleted and unsent messages reach the view through the store binding
+      scope.onMessageEvent('message:new', (message) => {
+        console.log(`[${instanceId}] Received message:new event:`, JSON.stringify(message, null, 2));
         
-        // Always update the conversation list when we get new messages
-        if (message?.conversationId) {
-          // Trigger a conversation list refresh to update unread counts, etc.
-          setFetchTrigger(prev => prev + 1);
-        }
-        
-        // Only add messages to the current view if they're for the selected conversation
         const currentSelectedConversation = selectedConversationRef.current;
         if (currentSelectedConversation && message && message.conversationId === currentSelectedConversation) {
-          console.log(`[${instanceId}] Adding message to conversation ${currentSelectedConversation}`);
-          
-          setMessages(prev => {
-            // Avoid duplicate messages
-            if (prev.some(m => m.id === message.id)) {
-              console.log(`[${instanceId}] Duplicate message detected, skipping`);
-              return prev;
-            }
-            
-            // Mark messages as read when receiving a new message
-            if (wsServiceRef.current && isConnectedRef.current) {
-              console.log(`[${instanceId}] Marking messages as read after receiving new message`);
-              wsServiceRef.current.markMessagesRead(currentSelectedConversation);
-            }
-            
-            console.log(`[${instanceId}] Added message to state:`, message.id);
-            return [...prev, message];
-          });
+          // Mark messages as read when receiving a new message
+          if (isConnectedRef.current) {
+            console.log(`[${instanceId}] Marking messages as read after receiving new message`);
+            markConversationRead(currentSelectedConversation);
+          }
         } else {
-          console.log(`[${instanceId}] Message not for current conversation, skipping display`);
-          console.log(`Current selected conversation: ${currentSelectedConversation}, Message conversation: ${message?.conversationId}`);
-        }
-      });
-
-      wsServiceRef.current.onMessageEvent('message:updated', (data) => {
-        console.log(`[${instanceId}] Received message:updated event:`, data);
-        
-        // The message object should be in data.message
-        const message = data.message || data;
-        const currentSelectedConversation = selectedConversationRef.current;
-        
-        // Update the message in our state if it's for the current conversation
-        if (currentSelectedConversation && message && message.conversationId === currentSelectedConversation) {
-          setMessages(prev => 
-            prev.map(m => m.id === message.id ? { ...m, ...message } : m)
-          );
-        }
-      });
-
-      wsServiceRef.current.onMessageEvent('message:deleted', (data) => {
-        console.log(`[${instanceId}] Received message:deleted event:`, data);
-        
-        // The message ID should be in data.messageId
-        const messageId = data.messageId || (data.message && data.message.id);
-        const conversationId = data.conversationId || (data.message && data.message.conversationId);
-        const currentSelectedConversation = selectedConversationRef.current;
-        
-        // Update the message in our state if it's for the current conversation
-        if (currentSelectedConversation && messageId && conversationId === currentSelectedConversation) {
-          setMessages(prev => 
-            prev.map(m => m.id === messageId 
-              ? { ...m, content: 'This message has been deleted', deletedAt: new Date().toISOString() } 
-              : m
-            )
-          );
-        }
-      });
-
-      wsServiceRef.current.onMessageEvent('message:unsent', (data) => {
-        console.log(`[${instanceId}] Received message:unsent event:`, data);
-        
-        // The message ID should be in data.messageId
-        const messageId = data.messageId || (data.message && data.message.id);
-        const conversationId = data.conversationId || (data.message && data.message.conversationId);
-        const currentSelectedConversation = selectedConversationRef.current;
-        
-        // Update the message in our state if it's for the current conversation
-        if (currentSelectedConversation && messageId && conversationId === currentSelectedConversation) {
-          setMessages(prev => 
-            prev.map(m => m.id === messageId 
-              ? { ...m, content: 'This message was unsent', unsentAt: new Date().toISOString() } 
-              : m
-            )
-          );
+          console.log(`[${instanceId}] Message not for current conversation, not marking read`);
         }
       });
       
       // Conversation event handlers
-      wsServiceRef.current.onConversationEvent('conversation:updated', async (data) => {
+      scope.onConversationEvent('conversation:updated', async (data) => {
         console.log(`[${instanceId}] Received conversation:updated event:`, JSON.stringify(data, null, 2));
         
         // Use refs to access the latest values
         if (selectedBotRef.current && isConnectedRef.current) {
           // The server sends the updated conversation in the 'conversation' property
-          const updatedConversation = data.conversation || data;
-          const updatedBy = data.updatedBy || data.userId;
+          const { conversation: updatedConversation, updatedBy } = data;
           
           console.log(`[${instanceId}] Processing update for conversation:`, JSON.stringify(updatedConversation, null, 2));
-          console.log(`[${instanceId}] Current conversations:`, conversations.map(c => ({ id: c.id, name: c.name })));
+          console.log(`[${instanceId}] Current conversations:`, selectConversations(store.getState()).map(c => ({ id: c.id, name: c.name })));
           
           // Check if we have a valid conversation object with an ID
           if (updatedConversation && updatedConversation.id) {
             console.log(`[${instanceId}] Updating conversation in state: ${updatedConversation.id}, name: ${updatedConversation.name}`);
             
             // Add system message about the conversation update
-            const userName = updatedBy === selectedBotRef.current ? 'You' : getUserNameById(updatedBy);
+            const userName = updatedBy === selectedBotRef.current ? 'You' : getUserNameById(updatedBy || '');
             await addSystemMessage(updatedConversation.id, `${userName} updated the conversation details`);
             
-            // Update the conversation in our state regardless of whether it's selected or not
-            setConversations(prevConversations => {
-              // Check if we already have this conversation
-              const exists = prevConversations.some(c => c.id === updatedConversation.id);
-              console.log(`[${instanceId}] Conversation exists in state: ${exists}`);
-              
-              if (exists) {
-                console.log(`[${instanceId}] Updating existing conversation`);
-                const updated = prevConversations.map(conv => 
-                  conv.id === updatedConversation.id ? { ...conv, ...updatedConversation } : conv
-                );
-                console.log(`[${instanceId}] Updated conversations:`, updated.map(c => ({ id: c.id, name: c.name })));
-                return updated;
-              } else {
-                // If conversation doesn't exist in our state, fetch all
-                console.log(`[${instanceId}] Conversation not found in state, fetching all conversations`);
-                fetchConversations();
-                return prevConversations;
-              }
-            });
+            // The store binding merges the update into conversations it already has
+            if (!store.getState().conversations[updatedConversation.id]) {
+              console.log(`[${instanceId}] Conversation not found in store, fetching all conversations`);
+              fetchConversations();
+            }
           } else {
             // Fallback to full refresh if we don't have proper data
             console.log(`[${instanceId}] Conversation update event missing ID, fetching all conversations`);
@@ -268,7 +233,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         }
       });
       
-      wsServiceRef.current.onConversationEvent('conversation:member:added', async (data) => {
+      scope.onConversationEvent('conversation:member:added', async (data) => {
         console.log(`[${instanceId}] Received conversation:member:added event:`, data);
         
         // Use refs to access the latest values
@@ -277,7 +242,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           
           // Get user names for the system message
           const addedUserName = getUserNameById(userId);
-          const addedByName = addedBy === selectedBotRef.current ? 'You' : getUserNameById(addedBy);
+          const addedByName = addedBy === selectedBotRef.current ? 'You' : getUserNameById(addedBy || '');
           
           // Add system message
           if (userId === selectedBotRef.current) {
@@ -289,30 +254,18 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           // If the current user was added to a conversation, join the room
           if (userId === selectedBotRef.current && conversationId) {
             console.log(`[${instanceId}] Current user was added to conversation: ${conversationId}, joining room`);
-            wsServiceRef.current?.joinConversation(conversationId);
+            joinConversation(conversationId);
             
             // Refresh conversations to include the new one
             fetchConversations();
           } else {
-            // If another user was added to a conversation we're part of,
-            // update that conversation in our state
-            setConversations(prevConversations => {
-              const conversation = prevConversations.find(c => c.id === conversationId);
-              if (conversation) {
-                // Update the member count
-                return prevConversations.map(conv => 
-                  conv.id === conversationId 
-                    ? { ...conv, memberCount: (conv.memberCount || 0) + 1 } 
-                    : conv
-                );
-              }
-              return prevConversations;
-            });
+            // If another user was added to a conversation we're part of, update its member count
+            adjustMemberCount(conversationId, 1);
           }
         }
       });
       
-      wsServiceRef.current.onConversationEvent('conversation:member:removed', async (data) => {
+      scope.onConversationEvent('conversation:member:removed', async (data) => {
         console.log(`[${instanceId}] Received conversation:member:removed event:`, data);
         
         // Use refs to access the latest values
@@ -321,7 +274,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           
           // Get user names for the system message
           const removedUserName = getUserNameById(userId);
-          const removedByName = removedBy === selectedBotRef.current ? 'You' : getUserNameById(removedBy);
+          const removedByName = removedBy === selectedBotRef.current ? 'You' : getUserNameById(removedBy || '');
           
           // Add system message
           if (userId === selectedBotRef.current) {
@@ -337,29 +290,16 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
               setSelectedConversation(null);
             }
             
-            // Remove the conversation from our state
-            setConversations(prevConversations => 
-              prevConversations.filter(c => c.id !== conversationId)
-            );
+            // Remove the conversation from the store
+            store.removeConversation(conversationId);
           } else {
             // If another user was removed, update the member count
-            setConversations(prevConversations => {
-              const conversation = prevConversations.find(c => c.id === conversationId);
-              if (conversation && conversation.memberCount > 0) {
-                // Update the member count
-                return prevConversations.map(conv => 
-                  conv.id === conversationId 
-                    ? { ...conv, memberCount: conv.memberCount - 1 } 
-                    : conv
-                );
-              }
-              return prevConversations;
-            });
+            adjustMemberCount(conversationId, -1);
           }
         }
       });
       
-      wsServiceRef.current.onConversationEvent('conversation:joined', async (data) => {
+      scope.onConversationEvent('conversation:joined', async (data) => {
         console.log(`[${instanceId}] Received conversation:joined event:`, data);
         
         // Use refs to access the latest values
@@ -372,23 +312,12 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           // Add system message
           await addSystemMessage(conversationId, `${userName} joined the conversation`);
           
-          // Update the conversation in our state
-          setConversations(prevConversations => {
-            const conversation = prevConversations.find(c => c.id === conversationId);
-            if (conversation) {
-              // Update the member count
-              return prevConversations.map(conv => 
-                conv.id === conversationId 
-                  ? { ...conv, memberCount: (conv.memberCount || 0) + 1 } 
-                  : conv
-              );
-            }
-            return prevConversations;
-          });
+          // Update the member count
+          adjustMemberCount(conversationId, 1);
         }
       });
       
-      wsServiceRef.current.onConversationEvent('conversation:left', async (data) => {
+      scope.onConversationEvent('conversation:left', async (data) => {
         console.log(`[${instanceId}] Received conversation:left event:`, data);
         
         // Use refs to access the latest values
@@ -405,34 +334,20 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           if (userId === selectedBotRef.current && selectedConversation === conversationId) {
             console.log(`[${instanceId}] Current user left the conversation`);
             setSelectedConversation(null);
-            setConversations(prevConversations => 
-              prevConversations.filter(c => c.id !== conversationId)
-            );
+            store.removeConversation(conversationId);
           } else {
             // If another user left, update the member count
-            setConversations(prevConversations => {
-              const conversation = prevConversations.find(c => c.id === conversationId);
-              if (conversation && conversation.memberCount > 0) {
-                // Update the member count
-                return prevConversations.map(conv => 
-                  conv.id === conversationId 
-                    ? { ...conv, memberCount: conv.memberCount - 1 } 
-                    : conv
-                );
-              }
-              return prevConversations;
-            });
+            adjustMemberCount(conversationId, -1);
           }
         }
       });
       
       // Also listen for new conversations
-      wsServiceRef.current.onConversationEvent('conversation:new', (data) => {
-        console.log(`[${instanceId}] Received conversation:new event:`, JSON.stringify(data, null, 2));
+      scope.onConversationEvent('conversation:new', (newConversation) => {
+        console.log(`[${instanceId}] Received conversation:new event:`, JSON.stringify(newConversation, null, 2));
         
         // Use refs to access the latest values
         if (selectedBotRef.current && isConnectedRef.current) {
-          const newConversation = data.conversation || data;
           
           console.log(`[${instanceId}] Processing new conversation:`, JSON.stringify(newConversation, null, 2));
           console.log(`[${instanceId}] Current user ID:`, selectedBotRef.current);
@@ -443,21 +358,9 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
             if (isMember) {
               // Join the new conversation room
               console.log(`[${instanceId}] Joining new conversation room: ${newConversation.id}`);
-              wsServiceRef.current?.joinConversation(newConversation.id);
+              joinConversation(newConversation.id);
               
-              // Add the new conversation to our state
-              setConversations(prevConversations => {
-                // Check if we already have this conversation
-                const exists = prevConversations.some(c => c.id === newConversation.id);
-                console.log(`[${instanceId}] Conversation already exists:`, exists);
-                
-                if (exists) {
-                  return prevConversations;
-                }
-                
-                console.log(`[${instanceId}] Adding new conversation to state:`, newConversation.id);
-                return [...prevConversations, newConversation];
-              });
+              // The store binding adds the conversation itself
             } else {
               console.log(`[${instanceId}] Current user is not a member of the new conversation, ignoring`);
             }
@@ -474,45 +377,32 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       });
     };
     
-    setupListeners();
+    const detachListeners = attachToService(service => {
+      // The scope removes them all on cleanup, so effect reruns don't stack handlers
+      const scope = service.createScope();
+      setupListeners(scope);
+      // Track emits queued while offline
+      scope.onOutboxChange(setOutboxItems);
+      const unbindUnread = unreadTracker.bind(service);
+      return () => {
+        scope.dispose();
+        unbindUnread();
+      };
+    });
+    const unsubscribeUnread = unreadTracker.subscribe(setUnreadCounts);
+    // The provider reports presence and keeps the store's copy current; this only drives the status picker
+    const unsubscribePresence = presence.subscribe(status => {
+      setOwnPresence(status);
+      setPreferredPresence(presence.getPreferredStatus());
+    });
     
     // Clean up on unmount
     return () => {
-      if (wsServiceRef.current) {
-        wsServiceRef.current.disconnect();
-      }
+      unsubscribePresence();
+      unsubscribeUnread();
+      detachListeners();
     };
-  }, [instanceId]); // Only depend on instanceId to prevent recreation
-  
-  // Verify that conversation event handlers are registered
-  useEffect(() => {
-    if (wsServiceRef.current && isConnected) {
-      // Force re-register the conversation:updated handler to ensure it's working
-      console.log(`[${instanceId}] Re-registering conversation:updated handler`);
-      
-      wsServiceRef.current.onConversationEvent('conversation:updated', (data) => {
-        console.log(`[${instanceId}] VERIFIED HANDLER: Received conversation:updated event:`, JSON.stringify(data, null, 2));
-        
-        // Use refs to access the latest values
-        if (selectedBotRef.current && isConnectedRef.current) {
-          // The server sends the updated conversation in the 'conversation' property
-          const updatedConversation = data.conversation || data;
-          
-          // Check if we have a valid conversation object with an ID
-          if (updatedConversation && updatedConversation.id) {
-            console.log(`[${instanceId}] VERIFIED HANDLER: Updating conversation: ${updatedConversation.id}, name: ${updatedConversation.name}`);
-            
-            // Update the conversation in our state regardless of whether it's selected or not
-            setConversations(prevConversations => {
-              return prevConversations.map(conv => 
-                conv.id === updatedConversation.id ? { ...conv, ...updatedConversation } : conv
-              );
-            });
-          }
-        }
-      });
-    }
-  }, [instanceId, isConnected]);
+  }, [instanceId, markConversationRead, store, presence, unreadTracker, attachToService, joinConversation]);
   
   // Handle bot selection
   const handleBotChange = (botId: string) => {
@@ -520,8 +410,8 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     fetchedRef.current = false;
     
     // Disconnect current bot if any
-    if (isConnected && wsServiceRef.current) {
-      wsServiceRef.current.disconnect();
+    if (isConnected) {
+      disconnectSocket();
       // Wait a bit before reconnecting
       setTimeout(() => {
         connectBot(botId);
@@ -535,27 +425,21 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   const connectBot = (botId: string) => {
     const bot = bots.find(b => b.userId === botId) || null;
     setSelectedBot(bot);
-    setConversations([]);
     setSelectedConversation(null);
-    setMessages([]);
+    resetHistory();
+    store.reset();
+    if (bot) store.setPresence(bot.userId, presence.getStatus());
+    unreadTracker.setUserId(bot?.userId ?? null);
+    setUnreadSince(null);
     setError(null);
     
-    if (bot && wsServiceRef.current) {
+    if (bot) {
       console.log(`[${instanceId}] Connecting bot: ${bot.userId}`);
       
-      try {
-        // Set user ID and connect
-        wsServiceRef.current.setUserId(bot.userId);
-        console.log(`[${instanceId}] Set userId to ${bot.userId}, connecting to WebSocket`);
-        
-        wsServiceRef.current.connect().catch(err => {
-          console.error(`[${instanceId}] Connection error:`, err);
-          setError(`Connection error: ${err.message}`);
-        });
-      } catch (err) {
-        console.error(`[${instanceId}] Error during connection:`, err);
-        setError(`Connection error: ${err instanceof Error ? err.message : String(err)}`);
-      }
+      // Set user ID and connect; the provider reports a failed connection as connectionError
+      setUserId(bot.userId);
+      console.log(`[${instanceId}] Set userId to ${bot.userId}, connecting to WebSocket`);
+      connect();
     }
   };
 
@@ -575,21 +459,25 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       console.log(`[${instanceId}] Fetching conversations for ${selectedBot.userId}`);
       const userConversations = await ConversationService.getConversations(selectedBot.userId);
       console.log(`[${instanceId}] Fetched ${userConversations.length} conversations:`, userConversations.map(c => ({ id: c.id, name: c.name })));
-      setConversations(userConversations);
+      // The fetched list is complete, so conversations missing from it are dropped
+        const fetchedIds = new Set(userConversations.map(conversation => conversation.id));
+      store.batch(() => {
+        store.getState().conversationIds
+          .filter(id => !fetchedIds.has(id))
+          .forEach(id => store.removeConversation(id));
+        store.upsertConversations(userConversations);
+      });
+      unreadTracker.seedConversations(userConversations);
       
       // Join all conversation rooms to receive updates for all conversations
-      if (wsServiceRef.current) {
-        console.log(`[${instanceId}] Joining all conversation rooms to receive updates`);
-        userConversations.forEach(conversation => {
-          console.log(`[${instanceId}] Joining conversation room: ${conversation.id}`);
-          wsServiceRef.current?.joinConversation(conversation.id);
-        });
-        
-        // Log the current conversation rooms we've joined
-        console.log(`[${instanceId}] Joined all conversation rooms`);
-      } else {
-        console.log(`[${instanceId}] WebSocket service not available, cannot join conversation rooms`);
-      }
+      console.log(`[${instanceId}] Joining all conversation rooms to receive updates`);
+      userConversations.forEach(conversation => {
+        console.log(`[${instanceId}] Joining conversation room: ${conversation.id}`);
+        joinConversation(conversation.id);
+      });
+      
+      // Log the current conversation rooms we've joined
+      console.log(`[${instanceId}] Joined all conversation rooms`);
       
       // Mark as fetched to prevent loops
       fetchedRef.current = true;
@@ -599,7 +487,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     } finally {
       setLoading(false);
     }
-  }, [selectedBot, isConnected, instanceId]);
+  }, [selectedBot, isConnected, instanceId, store, unreadTracker, joinConversation]);
 
   // Effect to fetch conversations when connection is established
   useEffect(() => {
@@ -619,67 +507,59 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   // Message input state
   const [messageText, setMessageText] = useState('');
 
-  // Add a ref to track the interval for marking messages as read
-  const markReadIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Set up interval to mark messages as read periodically
+  // Mark the open conversation read when it is selected
   useEffect(() => {
-    // Clear any existing interval
-    if (markReadIntervalRef.current) {
-      clearInterval(markReadIntervalRef.current);
-      markReadIntervalRef.current = null;
-    }
+    // Messages arriving in the open conversation are read as they arrive
+    unreadTracker.setActiveConversation(selectedConversation);
     
-    // If we have a selected conversation and we're connected, mark messages as read once
-    if (selectedConversation && isConnected && wsServiceRef.current && selectedBot) {
-      // Mark messages as read immediately
-      wsServiceRef.current.markMessagesRead(selectedConversation);
+    if (selectedConversation && isConnected && selectedBot) {
+      markConversationRead(selectedConversation);
     }
-    
-    // Clean up interval on unmount or when selected conversation changes
-    return () => {
-      if (markReadIntervalRef.current) {
-        clearInterval(markReadIntervalRef.current);
-        markReadIntervalRef.current = null;
-      }
-    };
-  }, [selectedConversation, isConnected, selectedBot, instanceId]);
+  }, [selectedConversation, isConnected, selectedBot, markConversationRead, unreadTracker]);
 
   // Select a conversation
-  const handleSelectConversation = async (conversationId: string) => {
+  // Optionally open the conversation at a specific message instead of the latest
+  const handleSelectConversation = async (conversationId: string, targetMessageId?: string) => {
     if (!selectedBot || !isConnected) return;
     
     setSelectedConversation(conversationId);
+    // Responses for a previously selected conversation must not land after this one
+    const signal = requestCanceller.next('select-conversation');
     
     try {
       console.log(`[${instanceId}] Selected conversation: ${conversationId}`);
       
       // Fetch fresh conversation details to get latest member read states
-      const conversationDetails = await ConversationService.getConversation(conversationId, selectedBot.userId);
+      const conversationDetails = await ConversationService.getConversation(conversationId, selectedBot.userId, { signal });
       console.log(`[${instanceId}] Fetched conversation details:`, conversationDetails);
       
-      // Update the conversation in our local state
-      setConversations(prev => 
-        prev.map(c => c.id === conversationId ? conversationDetails : c)
-      );
+      store.upsertConversations([conversationDetails]);
+      unreadTracker.seedConversations([conversationDetails]);
+      // Taken before the conversation is marked read below
+      setUnreadSince({ conversationId, lastReadAt: unreadTracker.get(conversationId).lastReadAt });
       
       // Now load messages with the fresh conversation details
-      await loadMessages(conversationId, conversationDetails);
+      await loadMessages(conversationId, conversationDetails, signal, targetMessageId);
+      if (signal.aborted) return;
       
       // Mark messages as read when selecting a conversation
-      if (wsServiceRef.current) {
-        console.log(`[${instanceId}] Marking messages as read after selecting conversation`);
-        wsServiceRef.current.markMessagesRead(conversationId);
-      }
+      console.log(`[${instanceId}] Marking messages as read after selecting conversation`);
+      markConversationRead(conversationId);
     } catch (err) {
+      if (isCancelledError(err)) return;
       console.error(`[${instanceId}] Failed to load conversation:`, err);
       setError(`Failed to load conversation: ${String(err)}`);
     }
   };
 
   // Load messages for a conversation
-  const loadMessages = async (conversationId: string, conversationDetails?: ConversationChannel) => {
-    if (!selectedBot || !isConnected) return;
+  const loadMessages = async (
+    conversationId: string,
+    conversationDetails?: ConversationChannel,
+    signal?: AbortSignal,
+    targetMessageId?: string
+  ) => {
+    if (!selectedBot || !isConnected || signal?.aborted) return;
     
     setLoading(true);
     setError(null);
@@ -695,62 +575,36 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       }
       
       // Join the conversation room if not already joined
-      if (wsServiceRef.current && isConnected) {
+      if (isConnected) {
         console.log(`[${instanceId}] Joining selected conversation room: ${conversationId}`);
-        wsServiceRef.current.joinConversation(conversationId);
+        joinConversation(conversationId);
       }
       
-      // Initialize read receipts from member data
-      if (conversation.members && conversation.members.length > 0) {
-        console.log(`[${instanceId}] Found ${conversation.members.length} conversation members`);
-        
-        const memberReadReceipts: Record<string, { userId: string, timestamp: string }> = {};
-        
-        conversation.members.forEach(member => {
-          console.log(`[${instanceId}] Processing member: ${member.userId}, lastReadAt: ${member.lastReadAt || 'undefined'}`);
-          
-          // Only track read receipts for other users (not the current user)
-          if (member.userId !== selectedBot.userId && member.lastReadAt) {
-            // Adjust the timestamp by subtracting 4 hours
-            const adjustedTimestamp = adjustTimestamp(member.lastReadAt);
-            memberReadReceipts[member.userId] = {
-              userId: member.userId,
-              timestamp: adjustedTimestamp
-            };
-            console.log(`[${instanceId}] Added read receipt for ${member.userId} at ${member.lastReadAt} (adjusted to ${adjustedTimestamp})`);
-          }
-        });
-        
-        // Log all the read receipts we found
-        console.log(`[${instanceId}] Initialized ${Object.keys(memberReadReceipts).length} read receipts:`, 
-          Object.entries(memberReadReceipts).map(([userId, receipt]) => ({
-            userId,
-            name: getUserName(userId),
-            timestamp: receipt.timestamp
-          }))
-        );
-        
-        // Update read receipts state
-        setReadReceipts(memberReadReceipts);
-      } else {
-        console.log(`[${instanceId}] No members found in conversation ${conversationId}`);
-        setReadReceipts({});
-      }
+      // Load the newest page, or the window around a target; more pages load on scroll
+      const conversationMessages = targetMessageId
+        ? await jumpToMessage(conversationId, targetMessageId, { signal })
+        : await loadLatest(conversationId, { signal });
       
-      // Load messages
-      const conversationMessages = await ConversationService.getMessages(
-        conversationId,
-        selectedBot.userId,
-        { limit: 50 } // Load last 50 messages
-      );
+      if (signal?.aborted) return;
       
-      console.log(`[${instanceId}] Loaded ${conversationMessages.length} messages`);
-      setMessages(conversationMessages);
+      console.log(`[${instanceId}] Loaded ${conversationMessages?.length ?? 0} messages`);
     } catch (err) {
+      // A newer selection owns the loading and error state now
+      if (isCancelledError(err)) return;
       console.error(`[${instanceId}] Failed to load messages:`, err);
-      setError('Failed to load messages');
+      if (err instanceof ForbiddenError) {
+        setError('You were removed from this conversation');
+      } else if (err instanceof NotFoundError) {
+        setError('This conversation no longer exists');
+      } else if (err instanceof NetworkError) {
+        setError('Failed to load messages: you appear to be offline');
+      } else {
+        setError('Failed to load messages');
+      }
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) {
+        setLoading(false);
+      }
     }
   };
 
@@ -774,15 +628,55 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     setReplyToMessage(null);
   };
 
+  // Scroll to a message in the open conversation, loading it if needed
+  const handleJumpToMessage = async (messageId: string) => {
+    if (!selectedConversation) return;
+    try {
+      await jumpToMessage(selectedConversation, messageId);
+    } catch (err) {
+      console.error(`[${instanceId}] Failed to jump to message ${messageId}:`, err);
+      setError(err instanceof NotFoundError ? 'That message no longer exists' : 'Failed to load message');
+    }
+  };
+
+  const handleJumpToLatest = async () => {
+    try {
+      await jumpToLatest();
+    } catch (err) {
+      console.error(`[${instanceId}] Failed to load latest messages:`, err);
+      setError('Failed to load messages');
+    }
+  };
+
   // File upload states
   const [attachments, setAttachments] = useState<File[]>([]);
   const [attachmentPreviews, setAttachmentPreviews] = useState<{ name: string; url: string; type: string }[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Progress of each send's attachment upload, by placeholder ID
+  const [uploadProgress, setUploadProgress] = useState<Record<string, { conversationId: string; progress: UploadProgress }>>({});
+  const [uploader] = useState(() => new ChunkedUploader());
+  const [attachmentPipeline] = useState(() => createImagePipeline());
+  const [attachmentRejections, setAttachmentRejections] = useState<AttachmentRejection[]>([]);
+
+  // Abort one send's attachment upload; other sends keep uploading
+  const handleCancelUpload = (placeholderId: string) => {
+    requestCanceller.cancel(`upload:${placeholderId}`);
+  };
 
   // Handle file selection
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const selectedFiles = Array.from(e.target.files);
+      const candidates = Array.from(e.target.files);
+      
+      // Clear the file input for next selection
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      
+      // Check the policy against everything that would be sent, so count and size limits apply
+      const { accepted, rejections } = await evaluateAttachments([...attachments, ...candidates]);
+      const selectedFiles = candidates.filter(file => accepted.includes(file));
+      setAttachmentRejections(rejections);
       setAttachments(prev => [...prev, ...selectedFiles]);
       
       // Generate previews for image files
@@ -806,21 +700,22 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           }]);
         }
       });
-      
-      // Clear the file input for next selection
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
   // Remove an attachment
   const handleRemoveAttachment = (index: number) => {
+    // Drop any partially uploaded parts for this file on the server
+    if (selectedBot && attachments[index]) {
+      uploader.abort(attachments[index], selectedBot.userId);
+    }
     setAttachments(prev => prev.filter((_, i) => i !== index));
     setAttachmentPreviews(prev => prev.filter((_, i) => i !== index));
+    setAttachmentRejections([]);
   };
 
   // State for @mentions
+  const [mentionNotice, setMentionNotice] = useState<MessageMentionEventPayload | null>(null);
   const [showMentionSuggestions, setShowMentionSuggestions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState('');
   const [mentionSuggestions, setMentionSuggestions] = useState<UserProfile[]>([]);
@@ -869,9 +764,9 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     
     // Set a timeout to stop typing indicator after 3 seconds of inactivity
     typingTimeoutRef.current = setTimeout(() => {
-      if (wsServiceRef.current && isConnected && selectedConversation) {
+      if (isConnected && selectedConversation) {
         console.log(`[${instanceId}] Sending typing:stop event after inactivity`);
-        wsServiceRef.current.sendTypingStop(selectedConversation);
+        sendTypingStop(selectedConversation);
         setIsTyping(false);
       }
     }, 3000);
@@ -946,72 +841,171 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     }
   };
 
-  // Modify handleSendMessage to include mentions
-  const handleSendMessage = async () => {
-    if (!messageText.trim() && attachments.length === 0 || !selectedConversation || !selectedBot) {
-      return;
+  // Sends not yet confirmed, by placeholder ID, kept so failed ones can be retried
+  const pendingSendsRef = useRef<Map<string, () => Promise<ConversationChannelMessage>>>(new Map());
+
+  // Process and upload attachments, then send the message that references them
+  const sendWithAttachments = async (
+    placeholderId: string,
+    conversationId: string,
+    userId: string,
+    message: SendMessageDto & { clientMessageId: string },
+    files: File[]
+  ): Promise<ConversationChannelMessage> => {
+    // Strip metadata, downscale and thumbnail images before they leave the browser
+    const processed = await attachmentPipeline.processAll(files);
+    const signal = requestCanceller.next(`upload:${placeholderId}`);
+    const onProgress = (progress: UploadProgress) =>
+      setUploadProgress(prev => ({ ...prev, [placeholderId]: { conversationId, progress } }));
+    
+    if (processed.some(attachment => attachment.file.size > CHUNKED_UPLOAD_THRESHOLD)) {
+      // Large files go up in parts first, then the message references them
+      const uploaded = await uploader.uploadFiles(
+        processed.map(attachment => attachment.file),
+        userId,
+        { signal, onProgress }
+      );
+      const thumbnails = await Promise.all(processed.map(attachment => attachment.thumbnail
+        ? uploader.upload(
+            new File([attachment.thumbnail], `thumb-${attachment.file.name}`, { type: attachment.thumbnail.type }),
+            userId,
+            { signal }
+          )
+        : Promise.resolve(undefined)
+      ));
+      
+      return ConversationService.sendMessage(
+        conversationId,
+        {
+          ...message,
+          attachments: uploaded.map((attachment, index) => ({
+            ...attachment,
+            thumbnailUrl: attachment.thumbnailUrl ?? thumbnails[index]?.fileUrl,
+            width: processed[index].metadata.width,
+            height: processed[index].metadata.height,
+            blurhash: processed[index].metadata.blurhash
+          }))
+        },
+        userId
+      );
     }
     
-    setLoading(true);
-    setError(null);
+    // Send with attachments via HTTP API
+    return ConversationService.sendMessageWithAttachments(
+      conversationId,
+      message.content,
+      processed,
+      userId,
+      {
+        replyToId: message.replyToId,
+        mentions: message.mentions,
+        clientMessageId: message.clientMessageId,
+        onProgress
+      },
+      { signal }
+    );
+  };
+
+  // Why a send failed, shown on the failed message
+  const describeSendError = (err: unknown): string => {
+    if (isCancelledError(err)) return 'Upload cancelled';
+    if (err instanceof AttachmentPolicyError) return 'Some attachments are not allowed';
+    if (err instanceof ForbiddenError) return 'You can no longer send messages to this conversation';
+    if (err instanceof RateLimitError) return 'You are sending messages too quickly, please wait a moment';
+    if (err instanceof ValidationError) return err.message;
+    if (err instanceof NetworkError) return 'You appear to be offline';
+    return 'Failed to send message';
+  };
+
+  // Run the send behind a placeholder; the confirmed message replaces it
+  const deliverMessage = async (placeholderId: string, clientMessageId: string) => {
+    const perform = pendingSendsRef.current.get(placeholderId);
+    if (!perform) return;
     
     try {
-      if (attachments.length > 0) {
-        // Send with attachments via HTTP API
-        await ConversationService.sendMessageWithAttachments(
-          selectedConversation,
-          messageText,
-          attachments,
-          selectedBot.userId,
-          {
-            replyToId: replyToMessage?.id,
-            mentions: mentions.length > 0 ? mentions : undefined
-          }
-        );
-        
-        // Clear attachments after sending
-        setAttachments([]);
-        setAttachmentPreviews([]);
-      } else {
-        // Send regular text message via HTTP API
-        await ConversationService.sendMessage(
-          selectedConversation,
-          {
-            content: messageText,
-            messageType: MessageType.TEXT,
-            replyToId: replyToMessage?.id,
-            mentions: mentions.length > 0 ? mentions : undefined
-          },
-          selectedBot.userId
-        );
-      }
-      
-      // Clear input, mentions and reply state
-      setMessageText('');
-      setMentions([]);
-      setReplyToMessage(null);
+      const sent = await perform();
+      pendingSendsRef.current.delete(placeholderId);
+      // Replaces the placeholder, matched by client message ID
+      store.upsertMessages([{ ...sent, clientMessageId }]);
     } catch (err) {
       console.error('Failed to send message:', err);
-      setError('Failed to send message');
+      if (err instanceof AttachmentPolicyError) {
+        setAttachmentRejections(err.rejections);
+      }
+      store.updateMessage(placeholderId, { sendState: 'failed', sendError: describeSendError(err) });
     } finally {
-      setLoading(false);
+      requestCanceller.release(`upload:${placeholderId}`);
+      setUploadProgress(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== placeholderId)));
     }
   };
 
+  // Show the message immediately, including mentions, then send it
+  const handleSendMessage = async () => {
+    if (!messageText.trim() && attachments.length === 0 || !selectedConversation || !selectedBot) {
+      return;
+    }
+    
+    setError(null);
+    
+    const conversationId = selectedConversation;
+    const userId = selectedBot.userId;
+    const files = attachments;
+    const message = {
+      content: messageText,
+      messageType: files.length > 0 ? MessageType.FILE : MessageType.TEXT,
+      replyToId: replyToMessage?.id,
+      mentions: mentions.length > 0 ? mentions : undefined,
+      clientMessageId: generateId()
+    };
+    const placeholder = {
+      ...createOptimisticMessage(conversationId, userId, message),
+      replyTo: replyToMessage ?? undefined
+    };
+    pendingSendsRef.current.set(placeholder.id, () => files.length > 0
+      ? sendWithAttachments(placeholder.id, conversationId, userId, message, files)
+      : ConversationService.sendMessage(conversationId, message, userId)
+    );
+    
+    // The message lands at the live tail
+    if (hasMoreAfter) {
+      await handleJumpToLatest();
+    }
+    store.upsertMessages([placeholder]);
+    
+    // Clear the composer right away; the placeholder shows the send's progress
+    setMessageText('');
+    setMentions([]);
+    setReplyToMessage(null);
+    setAttachments([]);
+    setAttachmentPreviews([]);
+    setAttachmentRejections([]);
+    
+    await deliverMessage(placeholder.id, message.clientMessageId);
+  };
+
+  // Resend a failed message with the same client ID, so the server deduplicates it
+  const handleRetrySend = (message: ConversationChannelMessage) => {
+    if (!message.clientMessageId) return;
+    store.updateMessage(message.id, { sendState: 'pending', sendError: undefined });
+    deliverMessage(message.id, message.clientMessageId);
+  };
+
+  const handleDiscardSend = (messageId: string) => {
+    pendingSendsRef.current.delete(messageId);
+    store.removeMessage(messageId);
+  };
+
   // Disconnect function
   const handleDisconnect = () => {
-    if (wsServiceRef.current) {
-      wsServiceRef.current.disconnect();
-    }
+    disconnectSocket();
     setSelectedBot(null);
-    setConversations([]);
     setSelectedConversation(null);
-    setMessages([]);
+    resetHistory();
+    store.reset();
+    unreadTracker.setUserId(null);
+    setUnreadSince(null);
   };
 
-  // Add state for tracking read receipts
-  const [readReceipts, setReadReceipts] = useState<Record<string, { userId: string, timestamp: string }>>({}); 
-
   // Helper function to get user name from userId
   const getUserName = (userId: string) => {
     const bot = bots.find(b => b.userId === userId);
@@ -1024,156 +1018,51 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     return bot ? `${bot.firstName} ${bot.lastName}` : 'Unknown User';
   };
 
-  // Set up handler for message:read events
-  useEffect(() => {
-    if (wsServiceRef.current && isConnected && selectedConversation) {
-      // Listen for read receipts
-      wsServiceRef.current.onMessageEvent('message:read', (data) => {
-        console.log(`[${instanceId}] Received message:read event:`, JSON.stringify(data, null, 2));
-        
-        const { conversationId, userId, timestamp } = data;
-        
-        // Only update read receipts for the current conversation
-        if (conversationId === selectedConversation && userId !== selectedBot?.userId) {
-          console.log(`[${instanceId}] Updating read receipt for user ${userId} at ${timestamp}`);
-          
-          // Merge with existing read receipts instead of overwriting
-          setReadReceipts(prev => {
-            const existingTimestamp = prev[userId]?.timestamp;
-            const newTimestamp = timestamp || new Date().toISOString();
-            // Adjust the new timestamp by subtracting 4 hours
-            const adjustedTimestamp = adjustTimestamp(newTimestamp);
-            
-            // Only update if the new timestamp is more recent
-            if (!existingTimestamp || new Date(adjustedTimestamp) > new Date(existingTimestamp)) {
-              console.log(`[${instanceId}] Updating read receipt for ${userId}: ${existingTimestamp || 'none'} → ${adjustedTimestamp} (original: ${newTimestamp})`);
-              
-              return {
-                ...prev,
-                [userId]: { userId, timestamp: adjustedTimestamp }
-              };
-            } else {
-              console.log(`[${instanceId}] Ignoring older read receipt for ${userId}`);
-              return prev;
-            }
-          });
-        } else {
-          console.log(`[${instanceId}] Ignoring read receipt: not for current conversation or from current user`);
-        }
-      });
-    }
-    
-    // Clear read receipts when conversation changes
-    return () => {
-      setReadReceipts({});
-    };
-  }, [wsServiceRef, isConnected, selectedConversation, instanceId, selectedBot]);
-
-  // Helper function to format time
-  const formatTime = (timestamp: string) => {
-    if (!timestamp) return '';
-    
-    try {
-      // Parse the UTC timestamp correctly
-      const date = new Date(timestamp);
-      
-      // Display as-is without any timezone conversion (preserve UTC time)
-      // The timestamp already contains the correct time from the server
-      return new Intl.DateTimeFormat('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: true,
-        timeZone: 'UTC'  // Explicitly use UTC to match the timestamp
-      }).format(date);
-    } catch (err) {
-      console.error(`[${instanceId}] Error formatting time:`, err);
-      return timestamp;
-    }
-  };
-
-  // Helper function to adjust lastReadAt and lastMessageAt timestamps
-  // which are 4 hours ahead of message timestamps
-  const adjustTimestamp = (timestamp: string): string => {
-    if (!timestamp) return '';
-    
-    try {
-      // Parse the timestamp
-      const date = new Date(timestamp);
-      // Subtract 4 hours
-      date.setHours(date.getHours() - 4);
-      return date.toISOString();
-    } catch (err) {
-      console.error(`[${instanceId}] Error adjusting timestamp:`, err);
-      return timestamp;
-    }
-  };
-
-  // Helper function to find the last message a user has read based on timestamp
-  const findLastReadMessageIndex = (messages: any[], userId: string, readTimestamp: string) => {
-    // The readTimestamp is already adjusted by the time it gets here
-    const readTime = new Date(readTimestamp).getTime();
-    
-    // Find the last message that was created before the read timestamp
-    for (let i = messages.length - 1; i >= 0; i--) {
-      // Message timestamps are correct, no need to adjust
-      const messageTime = new Date(messages[i].createdAt).getTime();
-      if (messageTime <= readTime) {
-        return i;
-      }
-    }
-    
-    return -1; // No messages found before the read timestamp
-  };
-  
-  // Process messages and read receipts to determine where to show read indicators
-  const processedMessages = useMemo(() => {
-    if (!messages.length) return [];
-    
-    // Clone messages to avoid mutating the original array
-    const result = [...messages];
-    
-    // Add read receipt indicators at appropriate positions
-    Object.values(readReceipts).forEach(receipt => {
-      const index = findLastReadMessageIndex(messages, receipt.userId, receipt.timestamp);
-      if (index >= 0) {
-        // Insert a read receipt after this message if one doesn't exist already
-        if (!result[index].readReceipts) {
-          result[index] = {
-            ...result[index],
-            readReceipts: []
-          };
-        }
-        
-        // Add this user to the read receipts for this message
-        result[index].readReceipts.push(receipt);
-      }
+  // Read receipts follow member read positions in the store, which message:read events move
+  const conversationMembers = useMessagingStore(store, selectMembers(selectedConversation ?? ''), shallowEqual);
+  const readReceipts = useMemo(
+    () => computeReadReceipts(messages, conversationMembers, selectedBot?.userId),
+    [messages, conversationMembers, selectedBot]
+  );
+  // Members whose read position ends at each message, keyed by message ID
+  const readersStoppedAt = useMemo(() => {
+    const result: Record<string, string[]> = {};
+    Object.entries(readReceipts.lastReadMessageIds).forEach(([userId, messageId]) => {
+      (result[messageId] ??= []).push(userId);
     });
-    
     return result;
-  }, [messages, readReceipts]);
+  }, [readReceipts]);
+  const [receiptDetailsId, setReceiptDetailsId] = useState<string | null>(null);
+  const deliveriesByMessage = useMessagingStore(store, state => state.deliveriesByMessage);
+  const deliveryStates = useMemo(
+    () => computeDeliveryStates(messages, conversationMembers, deliveriesByMessage, readReceipts, selectedBot?.userId),
+    [messages, conversationMembers, deliveriesByMessage, readReceipts, selectedBot]
+  );
+
+  // The unread divider goes before the first message from someone else
+  // after the read position the conversation was opened with
+  const firstUnreadMessageId = useMemo(() => {
+    if (!unreadSince?.lastReadAt || unreadSince.conversationId !== selectedConversation) return null;
+    const lastReadTime = toMillis(unreadSince.lastReadAt);
+    const firstUnread = messages.find(msg =>
+      msg.role !== 'system' &&
+      msg.senderId !== selectedBot?.userId &&
+      !msg.sendState &&
+      toMillis(msg.createdAt) > lastReadTime
+    );
+    return firstUnread?.id ?? null;
+  }, [messages, unreadSince, selectedConversation, selectedBot]);
+
+  const totalUnread = useMemo(() => getUnreadTotal(unreadCounts), [unreadCounts]);
   
-  // Add state for typing users
-  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  // Typing users in the selected conversation, other than the current user
+  const conversationTypingUsers = useMessagingStore(store, selectTypingUsers(selectedConversation ?? ''));
+  const typingUsers = useMemo(
+    () => conversationTypingUsers.filter(id => id !== selectedBot?.userId),
+    [conversationTypingUsers, selectedBot]
+  );
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
-  // Set up typing indicator event handler
-  useEffect(() => {
-    if (wsServiceRef.current && isConnected && selectedConversation) {
-      // Register typing update handler
-      wsServiceRef.current.onTypingUpdate(selectedConversation, (conversationId, typingUserIds) => {
-        if (conversationId === selectedConversation) {
-          // Filter out the current user
-          const otherTypingUsers = typingUserIds.filter(id => id !== selectedBot?.userId);
-          setTypingUsers(otherTypingUsers);
-        }
-      });
-    }
-    
-    return () => {
-      // No cleanup needed as the WebSocketService handles this
-    };
-  }, [wsServiceRef, isConnected, selectedConversation, selectedBot]);
-  
   // Add state and refs for typing indicator
   const [isTyping, setIsTyping] = useState(false);
   const lastTypingEventRef = useRef<number>(0);
@@ -1183,27 +1072,27 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     // Only send typing event if it's been more than 3 seconds since the last one
     const now = Date.now();
     if (now - lastTypingEventRef.current > 3000) {
-      if (wsServiceRef.current && isConnected && selectedConversation) {
+      if (isConnected && selectedConversation) {
         console.log(`[${instanceId}] Sending typing:start event (debounced)`);
-        wsServiceRef.current.sendTypingStart(conversationId);
+        sendTypingStart(conversationId);
         lastTypingEventRef.current = now;
       }
     }
-  }, [isConnected, selectedConversation, instanceId]);
+  }, [isConnected, selectedConversation, instanceId, sendTypingStart]);
 
   // Update focus and blur handlers
   const handleMessageInputFocus = () => {
     // Only send typing event if there's text in the input
-    if (messageText.trim() && wsServiceRef.current && isConnected && selectedConversation) {
+    if (messageText.trim() && isConnected && selectedConversation) {
       debouncedSendTypingStart(selectedConversation);
     }
   };
 
   const handleMessageInputBlur = () => {
     // Stop typing when input loses focus
-    if (isTyping && wsServiceRef.current && isConnected && selectedConversation) {
+    if (isTyping && isConnected && selectedConversation) {
       console.log(`[${instanceId}] Sending typing:stop event on blur`);
-      wsServiceRef.current.sendTypingStop(selectedConversation);
+      sendTypingStop(selectedConversation);
       setIsTyping(false);
     }
   };
@@ -1222,7 +1111,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     console.log('Selected Conversation:', selectedConversation);
     console.log('Conversations:', conversations);
     console.log('Messages:', messages);
-    console.log('WebSocket Service:', wsServiceRef.current);
+    console.log('Connection Error:', connectionError);
     console.log('Read Receipts:', readReceipts);
   };
 
@@ -1263,12 +1152,8 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         selectedBot.userId
       );
       
-      // Update local state
-      setConversations(prev => prev.map(conv => 
-        conv.id === selectedConversation 
-          ? { ...conv, name: conversationName } 
-          : conv
-      ));
+      // Update the store
+      store.upsertConversations([{ id: selectedConversation, name: conversationName }]);
       
       // Close the modal
       setShowEditModal(false);
@@ -1312,9 +1197,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         selectedBot.userId
       );
       
-      setConversations(prev => prev.map(conv => 
-        conv.id === selectedConversation ? conversationDetails : conv
-      ));
+      store.upsertConversations([conversationDetails]);
       
       // Add system message
       const memberName = getUserNameById(memberId);
@@ -1362,9 +1245,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         selectedBot.userId
       );
       
-      setConversations(prev => prev.map(conv => 
-        conv.id === selectedConversation ? conversationDetails : conv
-      ));
+      store.upsertConversations([conversationDetails]);
       
       // Add system message
       const memberName = getUserNameById(memberId);
@@ -1411,8 +1292,9 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         selectedBot.userId
       );
       
-      // Remove the conversation from our state
-      setConversations(prev => prev.filter(c => c.id !== selectedConversation));
+      // Remove the conversation from the store
+      store.removeConversation(selectedConversation);
+      unreadTracker.remove(selectedConversation);
       setSelectedConversation(null);
     } catch (err) {
       console.error('Failed to leave conversation:', err);
@@ -1436,6 +1318,16 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     setEditMessageText('');
   };
 
+  // Patch a stored message now; the returned function restores the patched fields
+  const patchMessage = (messageId: string, changes: Partial<ConversationChannelMessage>) => {
+    const previous = store.getState().messages[messageId];
+    const restore = Object.fromEntries(
+      Object.keys(changes).map(key => [key, previous?.[key as keyof ConversationChannelMessage]])
+    ) as Partial<ConversationChannelMessage>;
+    store.updateMessage(messageId, changes);
+    return () => store.updateMessage(messageId, restore);
+  };
+
   const handleSaveEditMessage = async () => {
     if (!editingMessageId || !selectedBot || !selectedConversation) return;
     
@@ -1444,34 +1336,23 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       return;
     }
     
-    setLoading(true);
     setError(null);
     
+    const messageId = editingMessageId;
+    const content = editMessageText;
+    
+    // Clear editing state; the edit shows straight away and is undone if it fails
+    setEditingMessageId(null);
+    setEditMessageText('');
+    
     try {
-      await ConversationService.editMessage(
-        selectedConversation,
-        editingMessageId,
-        editMessageText,
-        selectedBot.userId
-      );
-      
-      // Update the message in our local state
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === editingMessageId 
-            ? { ...msg, content: editMessageText, editedAt: new Date().toISOString() } 
-            : msg
-        )
+      await applyOptimistic(
+        () => patchMessage(messageId, { content, editedAt: serverClock.nowISO() }),
+        () => ConversationService.editMessage(selectedConversation, messageId, content, selectedBot.userId)
       );
-      
-      // Clear editing state
-      setEditingMessageId(null);
-      setEditMessageText('');
     } catch (err) {
       console.error('Failed to edit message:', err);
       setError('Failed to edit message');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -1483,32 +1364,19 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       return;
     }
     
-    setLoading(true);
     setError(null);
     
+    // Clear reply state
+    setReplyToMessage(null);
+    
     try {
-      await ConversationService.unsendMessage(
-        selectedConversation,
-        messageId,
-        selectedBot.userId
+      await applyOptimistic(
+        () => patchMessage(messageId, { content: 'This message was unsent', unsentAt: serverClock.nowISO() }),
+        () => ConversationService.unsendMessage(selectedConversation, messageId, selectedBot.userId)
       );
-      
-      // Update the message in our local state
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === messageId 
-            ? { ...msg, content: 'This message was unsent', unsentAt: new Date().toISOString() } 
-            : msg
-        )
-      );
-      
-      // Clear reply state
-      setReplyToMessage(null);
     } catch (err) {
       console.error('Failed to unsend message:', err);
       setError('Failed to unsend message');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -1520,37 +1388,25 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
       return;
     }
     
-    setLoading(true);
     setError(null);
     
+    // Clear reply state if we're replying to this message
+    if (replyToMessage?.id === messageId) {
+      setReplyToMessage(null);
+    }
+    
     try {
-      await ConversationService.deleteMessage(
-        selectedConversation,
-        messageId,
-        selectedBot.userId
-      );
-      
       // For the local state, we keep the original content but mark it as deleted
       // The rendering logic will handle showing different text for the sender vs other users
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === messageId 
-            ? { ...msg, deletedAt: new Date().toISOString() } 
-            : msg
-        )
+      await applyOptimistic(
+        () => patchMessage(messageId, { deletedAt: serverClock.nowISO() }),
+        () => ConversationService.deleteMessage(selectedConversation, messageId, selectedBot.userId)
       );
       
-      // Clear reply state if we're replying to this message
-      if (replyToMessage?.id === messageId) {
-        setReplyToMessage(null);
-      }
-      
       console.log(`[${instanceId}] Message ${messageId} marked as deleted`);
     } catch (err) {
       console.error('Failed to delete message:', err);
       setError('Failed to delete message');
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -1580,7 +1436,13 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   };
 
   // State for message reactions
-  const [messageReactions, setMessageReactions] = useState<Record<string, ConversationChannelMessageReaction[]>>({});
+  const reactionsByMessage = useMessagingStore(store, state => state.reactionsByMessage);
+  const messageReactions = useMemo(
+    () => Object.fromEntries(
+      Object.entries(reactionsByMessage).map(([messageId, reactions]) => [messageId, Object.values(reactions)])
+    ) as Record<string, ConversationChannelMessageReaction[]>,
+    [reactionsByMessage]
+  );
   const [showReactionPicker, setShowReactionPicker] = useState<string | null>(null);
 
   // Common emoji reactions
@@ -1597,10 +1459,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         selectedBot.userId
       );
       
-      setMessageReactions(prev => ({
-        ...prev,
-        [messageId]: reactions
-      }));
+      store.setReactions(messageId, reactions);
     } catch (err) {
       console.error(`[${instanceId}] Failed to load reactions for message ${messageId}:`, err);
     }
@@ -1612,7 +1471,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     
     // Get all message IDs that don't have reactions loaded yet
     const messagesToLoad = messages.filter(
-      msg => msg.id && !messageReactions[msg.id]
+      msg => msg.id && !msg.sendState && !messageReactions[msg.id]
     );
     
     // Load reactions for these messages
@@ -1625,20 +1484,34 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   const handleAddReaction = async (messageId: string, emoji: string) => {
     if (!selectedBot || !selectedConversation) return;
     
+    // Hide the reaction picker
+    setShowReactionPicker(null);
+    
+    const now = serverClock.nowISO();
+    const placeholder = {
+      id: `local:${generateId()}`,
+      messageId,
+      userId: selectedBot.userId,
+      emoji,
+      createdAt: now,
+      updatedAt: now
+    };
+    
     try {
       // Use REST API for adding reactions
-      await ConversationService.addReaction(
-        selectedConversation,
-        messageId,
-        emoji,
-        selectedBot.userId
+      const reaction = await applyOptimistic(
+        () => {
+          store.addReaction(placeholder);
+          return () => store.removeReaction(messageId, selectedBot.userId, emoji);
+        },
+        () => ConversationService.addReaction(selectedConversation, messageId, emoji, selectedBot.userId)
       );
       
-      // Refresh reactions for this message
-      loadMessageReactions(messageId);
-      
-      // Hide the reaction picker
-      setShowReactionPicker(null);
+      // Swap the placeholder for the server's reaction
+      store.batch(() => {
+        store.removeReaction(messageId, selectedBot.userId, emoji);
+        store.addReaction(reaction);
+      });
     } catch (err) {
       console.error(`[${instanceId}] Failed to add reaction:`, err);
       setError('Failed to add reaction');
@@ -1649,17 +1522,17 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   const handleRemoveReaction = async (messageId: string, emoji: string) => {
     if (!selectedBot || !selectedConversation) return;
     
+    
     try {
       // Use REST API for removing reactions
-      await ConversationService.removeReaction(
-        selectedConversation,
-        messageId,
-        emoji,
-        selectedBot.userId
+      await applyOptimistic(
+        () => {
+          const previous = Object.values(store.getState().reactionsByMessage[messageId] ?? {});
+          store.removeReaction(messageId, selectedBot.userId, emoji);
+          return () => store.setReactions(messageId, previous);
+        },
+        () => ConversationService.removeReaction(selectedConversation, messageId, emoji, selectedBot.userId)
       );
-      
-      // Refresh reactions for this message
-      loadMessageReactions(messageId);
     } catch (err) {
       console.error(`[${instanceId}] Failed to remove reaction:`, err);
       setError('Failed to remove reaction');
@@ -1729,7 +1602,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   };
 
   // Handle reaction added to a message
-  const onReactionAddedEvent = useCallback((data: any) => {
+  const onReactionAddedEvent = useCallback((data: MessageReactionEventPayload) => {
     console.log(`[${instanceId}] Reaction added event:`, data);
     
     // Add the reaction to the corresponding message
@@ -1740,7 +1613,7 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
   }, [instanceId]);
 
   // Handle reaction removed from a message
-  const onReactionRemovedEvent = useCallback((data: any) => {
+  const onReactionRemovedEvent = useCallback((data: MessageReactionEventPayload) => {
     console.log(`[${instanceId}] Reaction removed event:`, data);
     
     // Remove the reaction from the corresponding message
@@ -1750,65 +1623,47 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
     }
   }, [instanceId]);
 
-  // Handle being mentioned in a message
-  const onMentionEvent = useCallback((data: any) => {
-    console.log(`[${instanceId}] Mention event:`, data);
-    
-    // If the mention is in the current conversation, update messages
-    if (data.conversationId === selectedConversationRef.current) {
-      setFetchTrigger(prev => prev + 1);
-    } else {
-      // If in a different conversation, consider showing a notification
-      // This would depend on your UI design for notifications
-      console.log(`[${instanceId}] You were mentioned in another conversation: ${data.conversationId}`);
-      
-      // Refresh conversations list to update unread counts
-      setFetchTrigger(prev => prev + 1);
-    }
-  }, [instanceId, setFetchTrigger]);
-
   // Add handlers for reaction events
   useEffect(() => {
-    if (!wsServiceRef.current || !isConnected) return;
+    if (!isConnected) return;
 
     // Register handlers for new message reaction events
-    const handleReactionAdded = (data: any) => {
+    const handleReactionAdded = (data: MessageReactionEventPayload) => {
       console.log(`[${instanceId}] Reaction added event:`, data);
       if (data.messageId && selectedConversationRef.current) {
         loadMessageReactions(data.messageId);
       }
     };
 
-    const handleReactionRemoved = (data: any) => {
+    const handleReactionRemoved = (data: MessageReactionEventPayload) => {
       console.log(`[${instanceId}] Reaction removed event:`, data);
       if (data.messageId && selectedConversationRef.current) {
         loadMessageReactions(data.messageId);
       }
     };
 
-    const handleMessageMention = (data: any) => {
+    const handleMessageMention = (data: MessageMentionEventPayload) => {
       console.log(`[${instanceId}] Mention event:`, data);
-      // If the mention is in the current conversation, update messages
-      if (data.conversationId === selectedConversationRef.current) {
-        setFetchTrigger(prev => prev + 1);
-      } else {
-        // If in a different conversation, consider showing a notification
+      // Mentions in other conversations are counted by the unread tracker
+      if (data.conversationId !== selectedConversationRef.current) {
+        // Offer to open it at the mention
         console.log(`[${instanceId}] You were mentioned in another conversation: ${data.conversationId}`);
-        // Refresh conversations list to update unread counts
-        setFetchTrigger(prev => prev + 1);
+        if (data.messageId) {
+          setMentionNotice(data);
+        }
       }
     };
 
     // Register event handlers with WebSocket service
-    wsServiceRef.current.onMessageEvent('message:reaction:added', handleReactionAdded);
-    wsServiceRef.current.onMessageEvent('message:reaction:removed', handleReactionRemoved);
-    wsServiceRef.current.onMessageEvent('message:mention', handleMessageMention);
+    const unsubscribes = [
+      onMessageEvent('message:reaction:added', handleReactionAdded),
+      onMessageEvent('message:reaction:removed', handleReactionRemoved),
+      onMessageEvent('message:mention', handleMessageMention),
+    ];
 
-    // Clean up on unmount
-    return () => {
-      // No cleanup needed for now - would need offMessageEvent implementation
-    };
-  }, [instanceId, isConnected, selectedConversationRef, loadMessageReactions, setFetchTrigger]);
+    // Removed when the connection or callbacks change, and on unmount
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [instanceId, isConnected, selectedConversationRef, loadMessageReactions, onMessageEvent]);
 
   // After the handleRemoveMember function and before the return statement
 
@@ -1840,14 +1695,14 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
         }
       );
       
-      // Add to conversations list
-      setConversations(prev => [...prev, newConversation]);
+      // Add to the store
+      store.upsertConversations([newConversation]);
       
       // Select the new conversation
       setSelectedConversation(newConversation.id);
       
       // Join the conversation WebSocket room
-      wsServiceRef.current?.joinConversation(newConversation.id);
+      joinConversation(newConversation.id);
       
       // Close modal
       setShowCreateModal(false);
@@ -2005,14 +1860,73 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           </div>
           <div className="text-xs flex justify-between">
             <span>Instance: {instanceId}</span>
-            <span>Status: {connectionStatus}</span>
+            <span className="flex items-center gap-2">
+              {selectedBot && (
+                <span className="flex items-center gap-1">
+                  <PresenceDot store={store} userId={selectedBot.userId} />
+                  <select
+                    className="bg-background text-foreground rounded"
+                    value={preferredPresence}
+                    onChange={(e) => presence.setPreferredStatus(e.target.value as OwnPresenceStatus)}
+                    title={ownPresence === 'away' && preferredPresence === 'online' ? 'Away while idle' : 'Set your status'}
+                  >
+                    <option value="online">Online</option>
+                    <option value="away">Away</option>
+                    <option value="dnd">Do not disturb</option>
+                  </select>
+                </span>
+              )}
+              <span>Status: {connectionStatus}</span>
+            </span>
           </div>
+          {outboxItems.some(item => item.status === 'queued' || item.status === 'sending' || item.status === 'failed') && (
+            <div className="text-xs flex justify-between mt-1 text-muted-foreground">
+              <span>
+                {outboxItems.filter(item => item.status === 'queued' || item.status === 'sending').length} queued
+              </span>
+              {outboxItems.some(item => item.status === 'failed') && (
+                <button
+                  onClick={() => outboxItems
+                    .filter(item => item.status === 'failed')
+                    .forEach(item => retryOutboxItem(item.id))
+                  }
+                  className="text-destructive hover:underline"
+                  title="Retry failed sends"
+                >
+                  {outboxItems.filter(item => item.status === 'failed').length} failed - retry
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Error message */}
-        {error && (
+        {(error || connectionError) && (
           <div className="p-2 bg-red-500 text-white text-sm">
-            {error}
+            {error || connectionError}
+          </div>
+        )}
+
+        {mentionNotice && (
+          <div className="p-2 bg-blue-100 text-blue-800 text-sm flex justify-between items-center">
+            <span>
+              {mentionNotice.message?.sender?.firstName || 'Someone'} mentioned you in{' '}
+              {conversations.find(c => c.id === mentionNotice.conversationId)?.name || 'another conversation'}
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => {
+                  handleSelectConversation(mentionNotice.conversationId, mentionNotice.messageId);
+                  setMentionNotice(null);
+                }}
+                className="text-xs font-medium underline"
+              >
+                View
+              </button>
+              <button onClick={() => setMentionNotice(null)} className="text-xs opacity-70 hover:opacity-100">
+                ✕
+              </button>
+            </div>
           </div>
         )}
 
@@ -2022,7 +1936,14 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
           <div className="w-1/3 border-r overflow-y-auto">
             {/* Add refresh button to the conversation list header */}
             <div className="p-2 bg-sidebar-accent font-medium flex justify-between items-center">
-              <h3>Conversations</h3>
+              <h3 className="flex items-center gap-1">
+                Conversations
+                {totalUnread > 0 && (
+                  <span className="text-xs bg-primary text-primary-foreground rounded-full px-1.5" title={`${totalUnread} unread`}>
+                    {totalUnread > 99 ? '99+' : totalUnread}
+                  </span>
+                )}
+              </h3>
               <div className="flex space-x-2">
                 {isConnected && (
                   <>
@@ -2062,13 +1983,34 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                     }`}
                     onClick={() => handleSelectConversation(conversation.id)}
                   >
-                    <div className="font-medium">
-                      {conversation.name || conversation.members?.filter(m => m.userId !== selectedBot?.userId)
-                        .map(m => m.user?.firstName)
-                        .join(', ') || 'Unnamed conversation'}
+                    <div className="flex justify-between items-center">
+                      <span className={`flex items-center gap-1.5 ${unreadCounts[conversation.id]?.unread ? 'font-bold' : 'font-medium'}`}>
+                        {/* Direct conversations show the other member's presence */}
+                        {conversation.type === ConversationType.DIRECT && (() => {
+                          const other = conversation.members?.find(m => m.userId !== selectedBot?.userId);
+                          return other && <PresenceDot store={store} userId={other.userId} />;
+                        })()}
+                        {conversation.name || conversation.members?.filter(m => m.userId !== selectedBot?.userId)
+                          .map(m => m.user?.firstName)
+                          .join(', ') || 'Unnamed conversation'}
+                      </span>
+                      {unreadCounts[conversation.id]?.unread > 0 && (
+                        <span className="flex items-center gap-1 text-xs">
+                          {unreadCounts[conversation.id].mentions > 0 && (
+                            <span className="bg-destructive text-primary-foreground rounded-full px-1.5" title="Unread mentions">
+                              @{unreadCounts[conversation.id].mentions}
+                            </span>
+                          )}
+                          <span className="bg-primary text-primary-foreground rounded-full px-1.5" title="Unread messages">
+                            {unreadCounts[conversation.id].unread}
+                          </span>
+                        </span>
+                      )}
                     </div>
                     <div className="text-xs text-muted-foreground flex justify-between">
-                      <span>{conversation.lastMessageAt ? 'Last message: ' + formatTime(conversation.lastMessageAt) : 'No messages'}</span>
+                      <span title={formatDateTime(conversation.lastMessageAt)}>
+                        {conversation.lastMessageAt ? 'Last message: ' + formatRelativeTime(conversation.lastMessageAt, now) : 'No messages'}
+                      </span>
                       <span>{conversation.memberCount} members</span>
                     </div>
                   </li>
@@ -2109,27 +2051,43 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                 </div>
               
                 {/* Messages */}
-                <div className="flex-1 p-4 overflow-y-auto">
+                <div
+                  ref={messagesContainerRef}
+                  onScroll={handleMessagesScroll}
+                  className="flex-1 p-4 overflow-y-auto"
+                >
                   {messages.length === 0 ? (
                     <div className="text-center text-muted-foreground">No messages</div>
                   ) : (
                     <div className="space-y-2">
-                      {processedMessages.map((msg, index) => (
-                        <div key={index}>
+                      {isLoadingOlder ? (
+                        <div className="text-center text-xs text-muted-foreground">Loading older messages…</div>
+                      ) : !hasMoreBefore && (
+                        <div className="text-center text-xs text-muted-foreground">Beginning of conversation</div>
+                      )}
+                      {messages.map((msg) => (
+                        <div key={msg.id} data-message-id={msg.id}>
+                          {msg.id === firstUnreadMessageId && (
+                            <div className="flex items-center gap-2 my-2 text-xs text-destructive" role="separator">
+                              <div className="flex-1 border-t border-destructive" />
+                              <span>New messages</span>
+                              <div className="flex-1 border-t border-destructive" />
+                            </div>
+                          )}
                           <div 
-                            className={`p-2 rounded-lg max-w-[80%] ${
+                            className={`p-2 rounded-lg max-w-[80%] transition-shadow ${msg.sendState === 'pending' ? 'opacity-60' : ''} ${
                               msg.role === 'system'
                                 ? 'bg-transparent text-muted-foreground text-xs mx-auto text-center italic my-1'
                                 : msg.senderId === selectedBot?.userId 
                                   ? 'bg-primary text-primary-foreground ml-auto' 
                                   : 'bg-secondary'
-                            }`}
+                            } ${highlightedMessageId === msg.id ? 'ring-2 ring-yellow-400' : ''}`}
                           >
                             {/* Message content - only show sender for non-system messages */}
                             {msg.role !== 'system' && (
                               <div className="text-xs font-medium flex justify-between">
                                 <span>{msg.senderId === selectedBot?.userId ? 'You' : msg.sender?.firstName || 'Unknown'}</span>
-                                {msg.senderId === selectedBot?.userId ? (
+                                {msg.sendState ? null : msg.senderId === selectedBot?.userId ? (
                                   <div className="flex space-x-1">
                                     <button 
                                       onClick={() => setMessageActionsId(messageActionsId === msg.id ? null : msg.id)}
@@ -2192,6 +2150,22 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                               </div>
                             )}
                             
+                            {/* Reply preview; jumps to the original even when it isn't loaded */}
+                            {msg.replyToId && msg.role !== 'system' && (
+                              <button
+                                onClick={() => handleJumpToMessage(msg.replyToId!)}
+                                className="block w-full text-left mt-1 mb-1 pl-2 border-l-2 border-current opacity-70 hover:opacity-100 text-xs"
+                                title="Jump to original message"
+                              >
+                                <div className="font-medium">
+                                  {msg.replyTo
+                                    ? (msg.replyTo.senderId === selectedBot?.userId ? 'You' : msg.replyTo.sender?.firstName || 'Unknown')
+                                    : 'Reply'}
+                                </div>
+                                <div className="truncate">{msg.replyTo?.content ?? 'Original message'}</div>
+                              </button>
+                            )}
+
                             {/* Message content */}
                             {msg.role === 'system' ? (
                               // System message - simple display
@@ -2241,6 +2215,22 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                             {/* Display message attachments */}
                             {!msg.deletedAt && !msg.unsentAt && renderMessageAttachments(msg)}
                             
+                            {/* Optimistic send state */}
+                            {msg.sendState === 'pending' && (
+                              <div className="text-xs opacity-70 mt-1">Sending…</div>
+                            )}
+                            {msg.sendState === 'failed' && (
+                              <div className="text-xs mt-1 flex items-center space-x-2">
+                                <span className="text-red-300">{msg.sendError || 'Failed to send'}</span>
+                                <button onClick={() => handleRetrySend(msg)} className="underline">
+                                  Retry
+                                </button>
+                                <button onClick={() => handleDiscardSend(msg.id)} className="underline opacity-70">
+                                  Discard
+                                </button>
+                              </div>
+                            )}
+                            
                             {/* Display message reactions */}
                             {msg.id && messageReactions[msg.id] && messageReactions[msg.id].length > 0 && (
                               <div className="flex flex-wrap gap-1 mt-1">
@@ -2277,9 +2267,20 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                                 😀
                               </button>
                               
-                              <div>
-                                {msg.editedAt && <span className="mr-1">(edited)</span>}
-                                {msg.createdAt ? formatTime(msg.createdAt) : ''}
+                              <div title={formatDateTime(msg.createdAt)}>
+                                {msg.editedAt && <span className="mr-1" title={formatDateTime(msg.editedAt)}>(edited)</span>}
+                                {formatTime(msg.createdAt)}
+                                {deliveryStates[msg.id] && (() => {
+                                  const { icon: Icon, label, className } = DELIVERY_ICONS[deliveryStates[msg.id]];
+                                  return (
+                                    <Icon
+                                      className={`inline-block ml-1 h-3 w-3 align-[-2px] ${className}`}
+                                      aria-label={label}
+                                    >
+                                      <title>{label}</title>
+                                    </Icon>
+                                  );
+                                })()}
                               </div>
                             </div>
                             
@@ -2301,17 +2302,38 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                             )}
                           </div>
                           
-                          {/* Read receipts as inline indicator */}
-                          {msg.readReceipts && msg.readReceipts.length > 0 && (
+                          {/* Seen by, on the user's own messages */}
+                          {msg.senderId === selectedBot?.userId && readReceipts.byMessage[msg.id] && (
+                            <div className="text-right text-xs text-muted-foreground mt-1">
+                              <button
+                                onClick={() => setReceiptDetailsId(receiptDetailsId === msg.id ? null : msg.id)}
+                                className="hover:underline"
+                                title="Who has read this"
+                              >
+                                {readReceipts.byMessage[msg.id].seenByEveryone
+                                  ? 'Seen by everyone'
+                                  : `Seen by ${readReceipts.byMessage[msg.id].seenBy.length} of ${readReceipts.byMessage[msg.id].expectedCount}`}
+                              </button>
+                              {receiptDetailsId === msg.id && (
+                                <ul className="mt-1 inline-block text-left bg-background border rounded p-2 shadow">
+                                  {readReceipts.byMessage[msg.id].seenBy.length === 0 ? (
+                                    <li>Not seen yet</li>
+                                  ) : readReceipts.byMessage[msg.id].seenBy.map(reader => (
+                                    <li key={reader.userId} title={formatDateTime(reader.readAt)}>
+                                      {getUserName(reader.userId)}{reader.readAt ? ` · ${formatRelativeTime(reader.readAt, now)}` : ''}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Where other members stopped reading */}
+                          {readersStoppedAt[msg.id] && (
                             <div className="border-b border-border/30 my-2 relative">
                               <div className="absolute -bottom-3 left-0 right-0 text-center">
                                 <span className="bg-background text-xs text-muted-foreground px-2 inline-block">
-                                  {msg.readReceipts.map((receipt: any, idx: number) => (
-                                    <span key={receipt.userId}>
-                                      {getUserName(receipt.userId)} - {formatTime(receipt.timestamp)}
-                                      {idx < msg.readReceipts.length - 1 ? ', ' : ''}
-                                    </span>
-                                  ))}
+                                  {readersStoppedAt[msg.id].map(userId => getUserName(userId)).join(', ')}
                                   <span className="ml-1">read up to here</span>
                                 </span>
                               </div>
@@ -2334,6 +2356,22 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                           )}
                         </div>
                       )}
+
+                      {isLoadingNewer && (
+                        <div className="text-center text-xs text-muted-foreground">Loading newer messages…</div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Shown while viewing an older window, e.g. after jumping to a reply */}
+                  {hasMoreAfter && (
+                    <div className="sticky bottom-0 flex justify-center pt-2">
+                      <button
+                        onClick={handleJumpToLatest}
+                        className="text-xs bg-primary text-primary-foreground px-3 py-1 rounded-full shadow"
+                      >
+                        Jump to latest ↓
+                      </button>
                     </div>
                   )}
                 </div>
@@ -2357,6 +2395,56 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                     </div>
                   )}
                   
+                  {/* Upload progress of each send in this conversation */}
+                  {Object.entries(uploadProgress)
+                    .filter(([, upload]) => upload.conversationId === selectedConversation)
+                    .map(([placeholderId, { progress }]) => (
+                    <div key={placeholderId} className="mb-2 p-2 bg-secondary/30 rounded text-xs">
+                      <div className="flex justify-between items-center mb-1">
+                        <span>Uploading {progress.percent}%</span>
+                        <button
+                          onClick={() => handleCancelUpload(placeholderId)}
+                          className="text-destructive hover:underline"
+                          type="button"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      {progress.files.map((file, index) => (
+                        <div key={index} className="mb-1">
+                          <div className="truncate text-muted-foreground">{file.name}</div>
+                          <div className="h-1 bg-secondary rounded">
+                            <div
+                              className="h-1 bg-primary rounded"
+                              style={{ width: `${file.total > 0 ? (file.loaded / file.total) * 100 : 100}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                  
+                  {/* Files refused by the attachment policy */}
+                  {attachmentRejections.length > 0 && (
+                    <div className="mb-2 p-2 bg-destructive/10 text-destructive rounded text-xs">
+                      <div className="flex justify-between items-center">
+                        <span>Some files were not attached:</span>
+                        <button
+                          onClick={() => setAttachmentRejections([])}
+                          className="hover:underline"
+                          type="button"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                      <ul className="list-disc pl-4">
+                        {attachmentRejections.map((rejection, index) => (
+                          <li key={index}>{rejection.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
                   {/* File Attachments Preview */}
                   {attachmentPreviews.length > 0 && (
                     <div className="mb-2 flex flex-wrap gap-2">
@@ -2592,7 +2680,8 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                       key={memberId} 
                       className="flex justify-between items-center py-1"
                     >
-                      <span>
+                      <span className="flex items-center gap-1.5">
+                        <PresenceDot store={store} userId={memberId} />
                         {member 
                           ? `${member.firstName} ${member.lastName}` 
                           : 'Unknown User'}
@@ -2621,7 +2710,10 @@ export default function ConversationList({ bots, instanceId }: ConversationListP
                     key={bot.userId} 
                     className="flex justify-between items-center py-1"
                   >
-                    <span>{bot.firstName} {bot.lastName}</span>
+                    <span className="flex items-center gap-1.5">
+                      <PresenceDot store={store} userId={bot.userId} />
+                      {bot.firstName} {bot.lastName}
+                    </span>
                     <button
                       onClick={() => handleAddMember(bot.userId)}
                       className="text-xs bg-primary text-primary-foreground px-2 py-1 rounded"
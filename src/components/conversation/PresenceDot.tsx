@@ -0,0 +1,39 @@
+'use client';
+
+import { UserPresenceStatus } from '@/types/messaging';
+import { useMessagingStore } from '@/hooks/useMessagingStore';
+import { MessagingStore } from '@/lib/store/messagingStore';
+import { selectLastSeenAt, selectPresence } from '@/lib/store/selectors';
+import { formatRelativeTime } from '@/lib/time/format';
+
+const PRESENCE_STYLES: Record<UserPresenceStatus, { label: string; className: string }> = {
+  online: { label: 'Online', className: 'bg-green-500' },
+  away: { label: 'Away', className: 'bg-yellow-400' },
+  dnd: { label: 'Do not disturb', className: 'bg-red-500' },
+  offline: { label: 'Offline', className: 'bg-gray-400' },
+};
+
+type PresenceDotProps = {
+  store: MessagingStore;
+  userId: string;
+  className?: string;
+};
+
+// Status dot for a user, with last-seen time in the tooltip when they aren't online
+export default function PresenceDot({ store, userId, className = '' }: PresenceDotProps) {
+  const status = useMessagingStore(store, selectPresence(userId));
+  const lastSeenAt = useMessagingStore(store, selectLastSeenAt(userId));
+  const { label, className: color } = PRESENCE_STYLES[status];
+  const title = status !== 'online' && lastSeenAt
+    ? `${label} · last seen ${formatRelativeTime(lastSeenAt)}`
+    : label;
+
+  return (
+    <span
+      className={`inline-block h-2 w-2 rounded-full shrink-0 ${color} ${className}`}
+      title={title}
+      aria-label={title}
+      role="img"
+    />
+  );
+}
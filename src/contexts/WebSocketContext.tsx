@@ -1,66 +1,110 @@
 'use client';
 
 import React, { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react';
-import { WebSocketMessage, WebSocketMessageType } from '@/types/messaging';
-import { WebSocketService } from '@/lib/websocket/websocketService';
+import { ConversationChannelMessage, ConversationEventName, MessageEventName, SendMessageDto } from '@/types/messaging';
+import {
+  ConversationHandler,
+  MessageHandler,
+  SendMessageOptions,
+  TypingUpdateHandler,
+  Unsubscribe,
+  WebSocketService,
+} from '@/lib/websocket/websocketService';
+import { MessagingStore } from '@/lib/store/messagingStore';
+import { bindWebSocketService } from '@/lib/store/websocketBindings';
+import { PresenceManager } from '@/lib/presence/presenceManager';
 
 // Updated context type with new methods
 type WebSocketContextType = {
-  connect: (url: string) => void;
+  // Defaults to the service's own URL
+  connect: (url?: string) => void;
   disconnect: () => void;
-  sendMessage: (conversationId: string, message: any) => void;
+  sendMessage: (
+    conversationId: string,
+    message: SendMessageDto,
+    options?: SendMessageOptions
+  ) => Promise<ConversationChannelMessage>;
+  // Resend a failed message by its client message ID, reusing its outbox item
+  retrySend: (clientMessageId: string, options?: SendMessageOptions) => Promise<ConversationChannelMessage>;
+  // Drop a queued or failed emit, such as a message the user gave up on
+  discardOutboxItem: (id: string) => void;
+  // Send a failed emit again
+  retryOutboxItem: (id: string) => void;
   sendTypingStart: (conversationId: string) => void;
   sendTypingStop: (conversationId: string) => void;
   markMessagesRead: (conversationId: string) => void;
   joinConversation: (conversationId: string) => void;
   leaveConversation: (conversationId: string) => void;
   setUserId: (userId: string) => void;
-  onMessageEvent: (event: string, handler: (data: any) => void) => void;
-  onConversationEvent: (event: string, handler: (data: any) => void) => void;
-  onTypingUpdate: (conversationId: string, handler: (conversationId: string, typingUsers: string[]) => void) => void;
+  // Each returns a function that removes the handler; call it from the effect's cleanup
+  onMessageEvent: <E extends MessageEventName>(event: E, handler: MessageHandler<E>) => Unsubscribe;
+  onConversationEvent: <E extends ConversationEventName>(event: E, handler: ConversationHandler<E>) => Unsubscribe;
+  onTypingUpdate: (conversationId: string, handler: TypingUpdateHandler) => Unsubscribe;
+  // Join a conversation room until the returned release function is called; rooms are shared by count
+  retainConversation: (conversationId: string) => () => void;
+  // Run bind against the service now and against each one that replaces it, for listeners the on* methods don't cover
+  attachToService: (bind: (service: WebSocketService) => Unsubscribe) => Unsubscribe;
   isConnected: boolean;
-  messages: any[];
-  lastMessage: any | null;
-  clearMessages: () => void;
+  userId: string | null;
   connectionStatus: 'disconnected' | 'connecting' | 'connected' | 'error';
   connectionError: string | null;
+  // Normalized entities kept in sync with this provider's socket
+  store: MessagingStore;
+  // The signed-in user's own status, reported through this provider's socket
+  presence: PresenceManager;
 };
 
 // Create context with default values
 const WebSocketContext = createContext<WebSocketContextType>({
   connect: () => {},
   disconnect: () => {},
-  sendMessage: () => {},
+  sendMessage: () => Promise.reject(new Error('WebSocketProvider is not mounted')),
+  retrySend: () => Promise.reject(new Error('WebSocketProvider is not mounted')),
+  discardOutboxItem: () => {},
+  retryOutboxItem: () => {},
   sendTypingStart: () => {},
   sendTypingStop: () => {},
   markMessagesRead: () => {},
   joinConversation: () => {},
   leaveConversation: () => {},
   setUserId: () => {},
-  onMessageEvent: () => {},
-  onConversationEvent: () => {},
-  onTypingUpdate: () => {},
+  onMessageEvent: () => () => {},
+  onConversationEvent: () => () => {},
+  onTypingUpdate: () => () => {},
+  retainConversation: () => () => {},
+  attachToService: () => () => {},
   isConnected: false,
-  messages: [],
-  lastMessage: null,
-  clearMessages: () => {},
+  userId: null,
   connectionStatus: 'disconnected',
   connectionError: null,
+  store: new MessagingStore(),
+  presence: new PresenceManager(),
 });
 
 // Hook for using the WebSocket context
 export const useWebSocket = () => useContext(WebSocketContext);
 
+// A context subscription, kept so it can be attached again when the service is recreated
+type HandlerRegistration = {
+  attach: (service: WebSocketService) => Unsubscribe;
+  detach?: Unsubscribe;
+};
+
 // Provider component
 export function WebSocketProvider({ children }: { children: React.ReactNode }) {
   const [isConnected, setIsConnected] = useState(false);
-  const [messages, setMessages] = useState<any[]>([]);
-  const [lastMessage, setLastMessage] = useState<any | null>(null);
+  const [userId, setCurrentUserId] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
   const [connectionError, setConnectionError] = useState<string | null>(null);
   
   // Create a WebSocketService instance
   const websocketService = useRef<WebSocketService | null>(null);
+  const [store] = useState(() => new MessagingStore());
+  const [presence] = useState(() => new PresenceManager());
+  const roomCounts = useRef<Map<string, number>>(new Map());
+  const userIdRef = useRef<string | null>(null);
+  // Handlers registered through the context, attached to whichever service is current
+  const registrations = useRef<Set<HandlerRegistration>>(new Set());
   
   // Initialize the WebSocketService
   useEffect(() => {
@@ -72,21 +116,15 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
         (window as any).__websocketService = websocketService.current;
       }
     }
-    
-    return () => {
-      if (websocketService.current) {
-        websocketService.current.disconnect();
-        websocketService.current = null;
-      }
-    };
-  }, []);
-
-  const connect = useCallback((url: string) => {
-    if (!websocketService.current) return;
-    
-    setConnectionStatus('connecting');
-    
-    websocketService.current.onStatusChange((status) => {
+    // Children retain rooms and subscribe in their own effects, which run before this one
+    const service = websocketService.current;
+    roomCounts.current.forEach((_, conversationId) => service.joinConversation(conversationId));
+    const handlers = registrations.current;
+    handlers.forEach(registration => {
+      registration.detach = registration.attach(service);
+    });
+    const unbindStore = bindWebSocketService(store, websocketService.current);
+    const unsubscribeStatus = websocketService.current.onStatusChange((status) => {
       setConnectionStatus(status);
       setIsConnected(status === 'connected');
       
@@ -96,20 +134,34 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
         setConnectionError(null);
       }
     });
+    const unbindPresence = presence.bind(websocketService.current);
+    // Shown immediately rather than after the server relays it back
+    const unsubscribePresence = presence.subscribe(status => {
+      if (userIdRef.current) store.setPresence(userIdRef.current, status);
+    });
+    presence.start();
     
-    websocketService.current.onEventLog((events) => {
-      const messageEvents = events.filter(e => e.type === 'message' && e.data?.received);
-      if (messageEvents.length > 0) {
-        // Get the most recent message event
-        const latestEvent = messageEvents[messageEvents.length - 1];
-        const message = latestEvent.data?.message;
-        
-        if (message) {
-          setMessages(prev => [...prev, message]);
-          setLastMessage(message);
-        }
+    return () => {
+      presence.stop();
+      unsubscribePresence();
+      unbindPresence();
+      unsubscribeStatus();
+      unbindStore();
+      handlers.forEach(registration => {
+        registration.detach?.();
+        registration.detach = undefined;
+      });
+      if (websocketService.current) {
+        websocketService.current.dispose();
+        websocketService.current = null;
       }
-    });
+    };
+  }, [store, presence]);
+
+  const connect = useCallback((url?: string) => {
+    if (!websocketService.current) return;
+    
+    setConnectionStatus('connecting');
     
     websocketService.current.connect(url).catch((error) => {
       setConnectionError(`Failed to connect: ${error.message}`);
@@ -125,10 +177,26 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
     setConnectionStatus('disconnected');
   }, []);
 
-  const sendMessage = useCallback((conversationId: string, message: any) => {
-    if (websocketService.current) {
-      websocketService.current.sendMessage(conversationId, message);
+  const sendMessage = useCallback((conversationId: string, message: SendMessageDto, options?: SendMessageOptions) => {
+    if (!websocketService.current) {
+      return Promise.reject(new Error('WebSocket service is not initialized'));
     }
+    return websocketService.current.sendMessage(conversationId, message, options);
+  }, []);
+
+  const retrySend = useCallback((clientMessageId: string, options?: SendMessageOptions) => {
+    if (!websocketService.current) {
+      return Promise.reject(new Error('WebSocket service is not initialized'));
+    }
+    return websocketService.current.retrySend(clientMessageId, options);
+  }, []);
+
+  const discardOutboxItem = useCallback((id: string) => {
+    websocketService.current?.discardOutboxItem(id);
+  }, []);
+
+  const retryOutboxItem = useCallback((id: string) => {
+    websocketService.current?.retryOutboxItem(id);
   }, []);
   
   const sendTypingStart = useCallback((conversationId: string) => {
@@ -161,34 +229,72 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
   
-  const setUserId = useCallback((userId: string) => {
+  const setUserId = useCallback((nextUserId: string) => {
     if (websocketService.current) {
-      websocketService.current.setUserId(userId);
+      websocketService.current.setUserId(nextUserId);
     }
-  }, []);
-  
-  const onMessageEvent = useCallback((event: string, handler: (data: any) => void) => {
-    if (websocketService.current) {
-      websocketService.current.onMessageEvent(event, handler);
+    // Entities cached for another user must not leak into this one's views
+    if (userIdRef.current !== nextUserId) {
+      userIdRef.current = nextUserId;
+      // The service has already dropped the previous user's rooms; views retain them again for this one
+      roomCounts.current = new Map();
+      store.reset();
+      store.setPresence(nextUserId, presence.getStatus());
+      setCurrentUserId(nextUserId);
     }
-  }, []);
-  
-  const onConversationEvent = useCallback((event: string, handler: (data: any) => void) => {
-    if (websocketService.current) {
-      websocketService.current.onConversationEvent(event, handler);
+  }, [store, presence]);
+
+  // Changes identity with the user, so mounted views retain their rooms again after a switch
+  const retainConversation = useCallback((conversationId: string) => {
+    const rooms = roomCounts.current;
+    const count = rooms.get(conversationId) ?? 0;
+    rooms.set(conversationId, count + 1);
+    if (count === 0) {
+      websocketService.current?.joinConversation(conversationId);
     }
-  }, []);
+
+    let released = false;
+    return () => {
+      // Counts from before a user switch were already discarded
+      if (released || userIdRef.current !== userId) return;
+      released = true;
+
+      const remaining = (rooms.get(conversationId) ?? 1) - 1;
+      if (remaining > 0) {
+        rooms.set(conversationId, remaining);
+      } else {
+        rooms.delete(conversationId);
+        websocketService.current?.leaveConversation(conversationId);
+      }
+    };
+  }, [userId]);
   
-  const onTypingUpdate = useCallback((conversationId: string, handler: (conversationId: string, typingUsers: string[]) => void) => {
+  // Handlers outlive the service, so none are lost before it exists or when it's recreated
+  const attachToService = useCallback((attach: (service: WebSocketService) => Unsubscribe): Unsubscribe => {
+    const registration: HandlerRegistration = { attach };
+    registrations.current.add(registration);
     if (websocketService.current) {
-      websocketService.current.onTypingUpdate(conversationId, handler);
+      registration.detach = attach(websocketService.current);
     }
-  }, []);
 
-  const clearMessages = useCallback(() => {
-    setMessages([]);
-    setLastMessage(null);
+    return () => {
+      registrations.current.delete(registration);
+      registration.detach?.();
+      registration.detach = undefined;
+    };
   }, []);
+  
+  const onMessageEvent = useCallback(<E extends MessageEventName>(event: E, handler: MessageHandler<E>) => {
+    return attachToService(service => service.onMessageEvent(event, handler));
+  }, [attachToService]);
+  
+  const onConversationEvent = useCallback(<E extends ConversationEventName>(event: E, handler: ConversationHandler<E>) => {
+    return attachToService(service => service.onConversationEvent(event, handler));
+  }, [attachToService]);
+  
+  const onTypingUpdate = useCallback((conversationId: string, handler: TypingUpdateHandler) => {
+    return attachToService(service => service.onTypingUpdate(conversationId, handler));
+  }, [attachToService]);
 
   return (
     <WebSocketContext.Provider
@@ -196,6 +302,9 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
         connect,
         disconnect,
         sendMessage,
+        retrySend,
+        discardOutboxItem,
+        retryOutboxItem,
         sendTypingStart,
         sendTypingStop,
         markMessagesRead,
@@ -205,12 +314,14 @@ export function WebSocketProvider({ children }: { children: React.ReactNode }) {
         onMessageEvent,
         onConversationEvent,
         onTypingUpdate,
+        retainConversation,
+        attachToService,
         isConnected,
-        messages,
-        lastMessage,
-        clearMessages,
+        userId,
         connectionStatus,
         connectionError,
+        store,
+        presence,
       }}
     >
       {children}
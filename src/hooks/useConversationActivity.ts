@@ -0,0 +1,57 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { selectMembers, selectMessages, selectTypingUsers, shallowEqual } from '@/lib/store/selectors';
+import { ConversationReadReceipts, computeReadReceipts } from '@/lib/messages/readReceipts';
+import { MessageDeliveryState, computeDeliveryStates } from '@/lib/messages/deliveryState';
+import { useConversationRoom } from './useConversations';
+import { useMessagingStore } from './useMessagingStore';
+
+// Users typing in a conversation, other than the current user
+export function useTypingUsers(conversationId: string | null | undefined): string[] {
+  const { store, userId } = useWebSocket();
+  const typingUsers = useMessagingStore(store, selectTypingUsers(conversationId ?? ''));
+
+  useConversationRoom(conversationId);
+
+  return useMemo(() => typingUsers.filter(id => id !== userId), [typingUsers, userId]);
+}
+
+// The receipt hooks below read members from the store without fetching or joining the room;
+// pair them with useConversation, which does both once for the whole screen
+
+// Last read timestamp of every other member, keyed by user ID
+export function useReadReceipts(conversationId: string | null | undefined): Record<string, string> {
+  const { store, userId } = useWebSocket();
+  const members = useMessagingStore(store, selectMembers(conversationId ?? ''), shallowEqual);
+
+  return useMemo(() => Object.fromEntries(
+    members.flatMap(member =>
+      member.userId !== userId && member.lastReadAt ? [[member.userId, member.lastReadAt]] : []
+    )
+  ), [members, userId]);
+}
+
+// Who has seen each loaded message of a conversation, and where each member stopped reading
+export function useMessageReadReceipts(conversationId: string | null | undefined): ConversationReadReceipts {
+  const { store, userId } = useWebSocket();
+  const messages = useMessagingStore(store, selectMessages(conversationId ?? ''), shallowEqual);
+  const members = useMessagingStore(store, selectMembers(conversationId ?? ''), shallowEqual);
+
+  return useMemo(() => computeReadReceipts(messages, members, userId ?? undefined), [messages, members, userId]);
+}
+
+// Delivery state of the current user's loaded messages, keyed by message ID
+export function useDeliveryStates(conversationId: string | null | undefined): Record<string, MessageDeliveryState> {
+  const { store, userId } = useWebSocket();
+  const messages = useMessagingStore(store, selectMessages(conversationId ?? ''), shallowEqual);
+  const deliveries = useMessagingStore(store, state => state.deliveriesByMessage);
+  const members = useMessagingStore(store, selectMembers(conversationId ?? ''), shallowEqual);
+  const receipts = useMessageReadReceipts(conversationId);
+
+  return useMemo(
+    () => computeDeliveryStates(messages, members, deliveries, receipts, userId ?? undefined),
+    [messages, members, deliveries, receipts, userId]
+  );
+}
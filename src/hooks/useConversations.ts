@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { ConversationService } from '@/lib/api/conversationService';
+import { selectConversation, selectConversations, selectMembers, shallowEqual } from '@/lib/store/selectors';
+import { useMessagingStore } from './useMessagingStore';
+import { useStoreRequest } from './useStoreRequest';
+
+// Join a room while the calling component is mounted
+export function useConversationRoom(conversationId: string | null | undefined) {
+  const { retainConversation } = useWebSocket();
+
+  useEffect(() => {
+    if (!conversationId) return;
+    return retainConversation(conversationId);
+  }, [conversationId, retainConversation]);
+}
+
+/**
+ * The current user's conversations, most recently active first
+ * Fetched on connect and kept live by joining every conversation's room
+ */
+export function useConversations() {
+  const { store, userId, isConnected, retainConversation } = useWebSocket();
+  const conversations = useMessagingStore(store, selectConversations, shallowEqual);
+
+  const { loading, error, reload } = useStoreRequest(
+    userId && isConnected ? userId : null,
+    async (signal) => {
+      store.upsertConversations(await ConversationService.getConversations(userId!, { signal }));
+    }
+  );
+
+  const roomKey = conversations.map(conversation => conversation.id).join(',');
+  useEffect(() => {
+    if (!roomKey) return;
+    const releases = roomKey.split(',').map(retainConversation);
+    return () => releases.forEach(release => release());
+  }, [roomKey, retainConversation]);
+
+  return { conversations, loading, error, reload };
+}
+
+// One conversation with its members, refreshed when it is opened
+export function useConversation(conversationId: string | null | undefined) {
+  const { store, userId } = useWebSocket();
+  const conversation = useMessagingStore(store, selectConversation(conversationId ?? ''));
+  const members = useMessagingStore(store, selectMembers(conversationId ?? ''), shallowEqual);
+
+  useConversationRoom(conversationId);
+
+  const { loading, error, reload } = useStoreRequest(
+    conversationId && userId ? `${userId}:${conversationId}` : null,
+    async (signal) => {
+      store.upsertConversations([await ConversationService.getConversation(conversationId!, userId!, { signal })]);
+    }
+  );
+
+  return { conversation, members, loading, error, reload };
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ConversationChannelMessage } from '@/types/messaging';
+import { ApiCallOptions } from '@/lib/api/client';
+import { DEFAULT_PAGE_SIZE, fetchMessagePage } from '@/lib/messages/pagination';
+import { MessagingStore } from '@/lib/store/messagingStore';
+import { selectMessages, shallowEqual } from '@/lib/store/selectors';
+import { useMessagingStore } from './useMessagingStore';
+
+type UseMessageHistoryProps = {
+  userId?: string;
+  // Pages are written here, and the shown messages are read back from it
+  store: MessagingStore;
+  pageSize?: number;
+  // Distance from the top or bottom edge, in pixels, that triggers loading the next page
+  scrollThreshold?: number;
+  // How long a message jumped to stays highlighted
+  highlightDurationMs?: number;
+};
+
+// Scroll position to restore once the next render has committed
+type PendingScroll =
+  | { type: 'bottom' }
+  | { type: 'message'; messageId: string }
+  | { type: 'preserve'; scrollHeight: number; scrollTop: number };
+
+// The stretch of a conversation that is shown, by creation time
+// An open end follows the live tail, so new messages appear as they arrive
+type HistoryWindow = {
+  conversationId: string;
+  from: string | null;
+  to: string | null;
+};
+
+// Rendered messages must carry this attribute for jumps to find them
+const MESSAGE_ID_ATTRIBUTE = 'data-message-id';
+
+/**
+ * Paginated message history for one conversation at a time
+ * Older pages are prepended as the user scrolls up, keeping the visible
+ * messages in place; messages come from the store, so live and optimistic
+ * writes show up without being added here
+ */
+export function useMessageHistory({
+  userId,
+  store,
+  pageSize = DEFAULT_PAGE_SIZE,
+  scrollThreshold = 100,
+  highlightDurationMs = 2000,
+}: UseMessageHistoryProps) {
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow | null>(null);
+  const [hasMoreBefore, setHasMoreBefore] = useState(false);
+  const [hasMoreAfter, setHasMoreAfter] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  const stored = useMessagingStore(store, selectMessages(historyWindow?.conversationId ?? ''), shallowEqual);
+  const users = useMessagingStore(store, state => state.users);
+  const allMessages = useMessagingStore(store, state => state.messages);
+
+  // Stored messages inside the window, with senders and quoted messages attached
+  const messages = useMemo(() => {
+    if (!historyWindow) return [];
+    const { from, to } = historyWindow;
+    return stored
+      .filter(message => (!from || message.createdAt >= from) && (!to || message.createdAt <= to))
+      .map((message): ConversationChannelMessage => ({
+        ...message,
+        sender: message.senderId ? users[message.senderId] : undefined,
+        replyTo: message.replyToId ? allMessages[message.replyToId] : undefined,
+      }));
+  }, [historyWindow, stored, users, allMessages]);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<PendingScroll | null>(null);
+
+  // Mirrors of state read from callbacks that must stay stable
+  const conversationIdRef = useRef<string | null>(null);
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const hasMoreBeforeRef = useRef(hasMoreBefore);
+  hasMoreBeforeRef.current = hasMoreBefore;
+  const hasMoreAfterRef = useRef(hasMoreAfter);
+  hasMoreAfterRef.current = hasMoreAfter;
+  const loadingRef = useRef({ older: false, newer: false });
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+  }, []);
+
+  const scrollToPending = useCallback(() => {
+    const container = containerRef.current;
+    const pending = pendingScrollRef.current;
+    if (!container || !pending) return;
+
+    pendingScrollRef.current = null;
+    if (pending.type === 'bottom') {
+      container.scrollTop = container.scrollHeight;
+    } else if (pending.type === 'message') {
+      container
+        .querySelector(`[${MESSAGE_ID_ATTRIBUTE}="${CSS.escape(pending.messageId)}"]`)
+        ?.scrollIntoView({ block: 'center' });
+    } else {
+      container.scrollTop = pending.scrollTop + (container.scrollHeight - pending.scrollHeight);
+    }
+  }, []);
+
+  // Restore the scroll position after pages are added
+  useLayoutEffect(scrollToPending, [messages, scrollToPending]);
+
+  const fetchPage = useCallback(async (...args: Parameters<typeof fetchMessagePage>) => {
+    const page = await fetchMessagePage(...args);
+    storeRef.current.upsertMessages(page.messages);
+    return page;
+  }, []);
+
+  const preserveScroll = () => {
+    const container = containerRef.current;
+    if (container) {
+      pendingScrollRef.current = {
+        type: 'preserve',
+        scrollHeight: container.scrollHeight,
+        scrollTop: container.scrollTop,
+      };
+    }
+  };
+
+  // Replace the history with the newest page of a conversation
+  const loadLatest = useCallback(async (conversationId: string, request?: ApiCallOptions) => {
+    if (!userIdRef.current) return;
+
+    conversationIdRef.current = conversationId;
+    const page = await fetchPage(conversationId, userIdRef.current, { latest: true }, pageSize, request);
+    if (request?.signal?.aborted || conversationIdRef.current !== conversationId) return;
+
+    pendingScrollRef.current = { type: 'bottom' };
+    setHistoryWindow({ conversationId, from: page.messages[0]?.createdAt ?? null, to: null });
+    setHasMoreBefore(page.hasMoreBefore);
+    setHasMoreAfter(false);
+    return page.messages;
+  }, [pageSize, fetchPage]);
+
+  // Replace the history with the page surrounding a message
+  const loadAround = useCallback(async (conversationId: string, messageId: string, request?: ApiCallOptions) => {
+    if (!userIdRef.current) return;
+
+    conversationIdRef.current = conversationId;
+    const page = await fetchPage(conversationId, userIdRef.current, { around: messageId }, pageSize, request);
+    if (request?.signal?.aborted || conversationIdRef.current !== conversationId) return;
+
+    setHistoryWindow({
+      conversationId,
+      from: page.messages[0]?.createdAt ?? null,
+      to: page.hasMoreAfter ? page.messages[page.messages.length - 1]?.createdAt ?? null : null,
+    });
+    setHasMoreBefore(page.hasMoreBefore);
+    setHasMoreAfter(page.hasMoreAfter);
+    return page.messages;
+  }, [pageSize, fetchPage]);
+
+  // Prepend the page before the oldest loaded message
+  const loadOlder = useCallback(async () => {
+    const conversationId = conversationIdRef.current;
+    const oldest = messagesRef.current[0];
+    if (!conversationId || !oldest || !userIdRef.current || !hasMoreBeforeRef.current || loadingRef.current.older) {
+      return;
+    }
+
+    loadingRef.current.older = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchPage(conversationId, userIdRef.current, { before: oldest.id }, pageSize);
+      if (conversationIdRef.current !== conversationId) return;
+
+      preserveScroll();
+      setHistoryWindow(prev => prev && { ...prev, from: page.messages[0]?.createdAt ?? prev.from });
+      setHasMoreBefore(page.hasMoreBefore);
+    } catch (error) {
+      console.error(`useMessageHistory: Failed to load older messages for ${conversationId}:`, error);
+    } finally {
+      loadingRef.current.older = false;
+      setIsLoadingOlder(false);
+    }
+  }, [pageSize, fetchPage]);
+
+  // Append the page after the newest loaded message, when viewing an older window
+  const loadNewer = useCallback(async () => {
+    const conversationId = conversationIdRef.current;
+    const newest = messagesRef.current[messagesRef.current.length - 1];
+    if (!conversationId || !newest || !userIdRef.current || !hasMoreAfterRef.current || loadingRef.current.newer) {
+      return;
+    }
+
+    loadingRef.current.newer = true;
+    setIsLoadingNewer(true);
+    try {
+      const page = await fetchPage(conversationId, userIdRef.current, { after: newest.id }, pageSize);
+      if (conversationIdRef.current !== conversationId) return;
+
+      setHistoryWindow(prev => prev && {
+        ...prev,
+        to: page.hasMoreAfter ? page.messages[page.messages.length - 1]?.createdAt ?? prev.to : null,
+      });
+      setHasMoreAfter(page.hasMoreAfter);
+    } catch (error) {
+      console.error(`useMessageHistory: Failed to load newer messages for ${conversationId}:`, error);
+    } finally {
+      loadingRef.current.newer = false;
+      setIsLoadingNewer(false);
+    }
+  }, [pageSize, fetchPage]);
+
+  const highlight = useCallback((messageId: string) => {
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current);
+    setHighlightedMessageId(messageId);
+    highlightTimerRef.current = setTimeout(() => setHighlightedMessageId(null), highlightDurationMs);
+  }, [highlightDurationMs]);
+
+  // Scroll to and highlight a message, loading the window around it if it is not loaded
+  const jumpToMessage = useCallback(async (conversationId: string, messageId: string, request?: ApiCallOptions) => {
+    const isLoaded = conversationIdRef.current === conversationId &&
+      messagesRef.current.some(message => message.id === messageId);
+    if (isLoaded) {
+      pendingScrollRef.current = { type: 'message', messageId };
+      scrollToPending();
+      highlight(messageId);
+      return messagesRef.current;
+    }
+
+    // Scrolled into view once the new window renders
+    const pending: PendingScroll = { type: 'message', messageId };
+    pendingScrollRef.current = pending;
+    let page: ConversationChannelMessage[] | undefined;
+    try {
+      page = await loadAround(conversationId, messageId, request);
+    } finally {
+      // Nothing rendered for a failed or superseded jump; don't scroll on a later render
+      if (!page && pendingScrollRef.current === pending) {
+        pendingScrollRef.current = null;
+      }
+    }
+    if (page) highlight(messageId);
+    return page;
+  }, [loadAround, scrollToPending, highlight]);
+
+  // Return to the newest messages, reloading them if an older window is shown
+  const jumpToLatest = useCallback(async (request?: ApiCallOptions) => {
+    const conversationId = conversationIdRef.current;
+    if (!conversationId) return;
+
+    if (hasMoreAfterRef.current) {
+      await loadLatest(conversationId, request);
+    } else {
+      pendingScrollRef.current = { type: 'bottom' };
+      scrollToPending();
+    }
+  }, [loadLatest, scrollToPending]);
+
+  // Forget the loaded conversation
+  const reset = useCallback(() => {
+    conversationIdRef.current = null;
+    setHistoryWindow(null);
+    setHasMoreBefore(false);
+    setHasMoreAfter(false);
+  }, []);
+
+  // Attach to the scroll container to load pages at either edge
+  const onScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (container.scrollTop <= scrollThreshold) {
+      loadOlder();
+    }
+    if (container.scrollHeight - container.scrollTop - container.clientHeight <= scrollThreshold) {
+      loadNewer();
+    }
+  }, [loadOlder, loadNewer, scrollThreshold]);
+
+  return {
+    messages,
+    hasMoreBefore,
+    hasMoreAfter,
+    isLoadingOlder,
+    isLoadingNewer,
+    highlightedMessageId,
+    loadLatest,
+    loadAround,
+    jumpToMessage,
+    jumpToLatest,
+    loadOlder,
+    loadNewer,
+    reset,
+    containerRef,
+    onScroll,
+  };
+}
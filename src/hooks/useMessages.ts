@@ -0,0 +1,155 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { ConversationChannelMessage, SendMessageDto } from '@/types/messaging';
+import { SendMessageOptions } from '@/lib/websocket/websocketService';
+import { isCancelledError } from '@/lib/api/cancellation';
+import { DEFAULT_PAGE_SIZE, fetchMessagePage } from '@/lib/messages/pagination';
+import { createOptimisticMessage } from '@/lib/messages/optimistic';
+import { generateId } from '@/lib/utils';
+import { selectMessages, shallowEqual } from '@/lib/store/selectors';
+import { useConversationRoom } from './useConversations';
+import { useMessagingStore } from './useMessagingStore';
+import { useStoreRequest } from './useStoreRequest';
+
+/**
+ * Messages of a conversation, oldest first, with senders and quoted messages attached
+ * Loads the newest page on mount; call loadOlder to page back through history
+ */
+export function useMessages(conversationId: string | null | undefined, pageSize: number = DEFAULT_PAGE_SIZE) {
+  const { store, userId } = useWebSocket();
+  const stored = useMessagingStore(store, selectMessages(conversationId ?? ''), shallowEqual);
+  const users = useMessagingStore(store, state => state.users);
+  const allMessages = useMessagingStore(store, state => state.messages);
+  // Paging state belongs to the conversation it was loaded for
+  const key = conversationId && userId ? `${userId}:${conversationId}` : null;
+  const [paging, setPaging] = useState<{ key: string | null; hasMoreBefore: boolean }>({ key: null, hasMoreBefore: false });
+  const hasMoreBefore = paging.key === key && paging.hasMoreBefore;
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const olderRequestRef = useRef<AbortController | null>(null);
+
+  useConversationRoom(conversationId);
+
+  const { loading, error, reload } = useStoreRequest(key, async (signal) => {
+    const page = await fetchMessagePage(conversationId!, userId!, { latest: true }, pageSize, { signal });
+    store.upsertMessages(page.messages);
+    setPaging({ key, hasMoreBefore: page.hasMoreBefore });
+  });
+
+  // An older page still loading belongs to the previous conversation
+  useEffect(() => () => {
+    olderRequestRef.current?.abort();
+    olderRequestRef.current = null;
+    setIsLoadingOlder(false);
+  }, [key]);
+
+  const messages = useMemo(() => stored.map((message): ConversationChannelMessage => ({
+    ...message,
+    sender: message.senderId ? users[message.senderId] : undefined,
+    replyTo: message.replyToId ? allMessages[message.replyToId] : undefined,
+  })), [stored, users, allMessages]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = stored[0];
+    if (!key || !oldest || !hasMoreBefore || olderRequestRef.current) return;
+
+    const controller = new AbortController();
+    olderRequestRef.current = controller;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(conversationId!, userId!, { before: oldest.id }, pageSize, {
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted || keyRef.current !== key) return;
+
+      store.upsertMessages(page.messages);
+      setPaging({ key, hasMoreBefore: page.hasMoreBefore });
+    } catch (err) {
+      if (!controller.signal.aborted && !isCancelledError(err)) {
+        console.error(`useMessages: Failed to load older messages for ${conversationId}:`, err);
+      }
+    } finally {
+      if (olderRequestRef.current === controller) {
+        olderRequestRef.current = null;
+        setIsLoadingOlder(false);
+      }
+    }
+  }, [store, key, conversationId, userId, stored, hasMoreBefore, pageSize]);
+
+  return { messages, hasMoreBefore, isLoadingOlder, loading, error, loadOlder, reload };
+}
+
+type QueuedSend = {
+  conversationId: string;
+  message: SendMessageDto & { clientMessageId: string };
+  options?: SendMessageOptions;
+};
+
+/**
+ * Send over the socket with an optimistic placeholder in the store
+ * The placeholder is replaced by the acknowledged message, or marked failed
+ * so it can be retried or discarded by its message ID; both act on the
+ * send's outbox item rather than queueing another
+ */
+export function useSendMessage() {
+  const { store, userId, sendMessage, retrySend, discardOutboxItem } = useWebSocket();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<Error | null>(null);
+  const sendsRef = useRef<Map<string, QueuedSend>>(new Map());
+
+  const deliver = useCallback(async (
+    placeholderId: string,
+    queued: QueuedSend,
+    perform: () => Promise<ConversationChannelMessage>
+  ): Promise<ConversationChannelMessage> => {
+    setPendingCount(count => count + 1);
+    setError(null);
+    try {
+      const sent = await perform();
+      sendsRef.current.delete(placeholderId);
+      store.upsertMessages([{ ...sent, clientMessageId: queued.message.clientMessageId }]);
+      return sent;
+    } catch (err) {
+      const failure = err instanceof Error ? err : new Error(String(err));
+      store.updateMessage(placeholderId, { sendState: 'failed', sendError: failure.message });
+      setError(failure);
+      throw err;
+    } finally {
+      setPendingCount(count => count - 1);
+    }
+  }, [store]);
+
+  const send = useCallback((
+    conversationId: string,
+    message: SendMessageDto,
+    options?: SendMessageOptions
+  ): Promise<ConversationChannelMessage> => {
+    const queued = { conversationId, message: { ...message, clientMessageId: message.clientMessageId ?? generateId() }, options };
+    const placeholder = createOptimisticMessage(conversationId, userId ?? '', queued.message);
+    sendsRef.current.set(placeholder.id, queued);
+    store.upsertMessages([placeholder]);
+    return deliver(placeholder.id, queued, () => sendMessage(conversationId, queued.message, options));
+  }, [store, userId, sendMessage, deliver]);
+
+  // Resend a failed message with the same client ID, so the server deduplicates it
+  const retry = useCallback((messageId: string) => {
+    const queued = sendsRef.current.get(messageId);
+    if (!queued) return Promise.reject(new Error(`No failed send for message ${messageId}`));
+    store.updateMessage(messageId, { sendState: 'pending', sendError: undefined });
+    return deliver(messageId, queued, () => retrySend(queued.message.clientMessageId, queued.options));
+  }, [store, retrySend, deliver]);
+
+  // Also drops the outbox item, so a reconnect doesn't send it after all
+  const discard = useCallback((messageId: string) => {
+    const clientMessageId = sendsRef.current.get(messageId)?.message.clientMessageId
+      ?? store.getState().messages[messageId]?.clientMessageId;
+    sendsRef.current.delete(messageId);
+    if (clientMessageId) discardOutboxItem(clientMessageId);
+    store.removeMessage(messageId);
+  }, [store, discardOutboxItem]);
+
+  return { send, retry, discard, sending: pendingCount > 0, error };
+}
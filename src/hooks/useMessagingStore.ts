@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import { MessagingState, MessagingStore } from '@/lib/store/messagingStore';
+
+type Snapshot<T> = {
+  state: MessagingState;
+  selector: (state: MessagingState) => T;
+  value: T;
+};
+
+/**
+ * Subscribe a component to a slice of a MessagingStore
+ * Re-renders only when the selected value changes according to isEqual;
+ * pass shallowEqual for selectors that build a new array each time
+ */
+export function useMessagingStore<T>(
+  store: MessagingStore,
+  selector: (state: MessagingState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const snapshotRef = useRef<Snapshot<T> | null>(null);
+
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
+
+  const getSnapshot = () => {
+    const state = store.getState();
+    const previous = snapshotRef.current;
+    if (previous && previous.state === state && previous.selector === selector) {
+      return previous.value;
+    }
+
+    const selected = selector(state);
+    const value = previous && isEqual(previous.value, selected) ? previous.value : selected;
+    snapshotRef.current = { state, selector, value };
+    return value;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
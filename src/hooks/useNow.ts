@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { serverClock } from '@/lib/time/serverClock';
+
+// Current server time, refreshed on an interval so relative times stay current
+export function useNow(intervalMs: number = 30 * 1000): number {
+  const [now, setNow] = useState(() => serverClock.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(serverClock.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { OwnPresenceStatus } from '@/lib/presence/presenceManager';
+import { selectLastSeenAt, selectPresence } from '@/lib/store/selectors';
+import { useMessagingStore } from './useMessagingStore';
+
+// Latest reported status of a user
+export function usePresence(userId: string | null | undefined) {
+  const { store } = useWebSocket();
+  return useMessagingStore(store, selectPresence(userId ?? ''));
+}
+
+// When a user was last active, if known
+export function useLastSeen(userId: string | null | undefined) {
+  const { store } = useWebSocket();
+  return useMessagingStore(store, selectLastSeenAt(userId ?? ''));
+}
+
+// The signed-in user's reported status, and the one they chose
+export function useOwnPresence() {
+  const { presence } = useWebSocket();
+  const subscribe = useCallback((listener: () => void) => presence.subscribe(listener), [presence]);
+  const status = useSyncExternalStore(subscribe, () => presence.getStatus(), () => presence.getStatus());
+  const preferredStatus = useSyncExternalStore(
+    subscribe,
+    () => presence.getPreferredStatus(),
+    () => presence.getPreferredStatus()
+  );
+  const setPreferredStatus = useCallback(
+    (next: OwnPresenceStatus) => presence.setPreferredStatus(next),
+    [presence]
+  );
+
+  return { status, preferredStatus, setPreferredStatus };
+}
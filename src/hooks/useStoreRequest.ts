@@ -0,0 +1,48 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isCancelledError } from '@/lib/api/cancellation';
+
+/**
+ * Run a request that writes into the messaging store whenever key changes
+ * The previous request is aborted; a null key skips the request
+ */
+export function useStoreRequest(key: string | null, request: (signal: AbortSignal) => Promise<void>) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Always call the latest closure without re-running the effect on every render
+  const requestRef = useRef(request);
+  requestRef.current = request;
+
+  useEffect(() => {
+    if (key === null) {
+      // Whatever was in flight for the previous key was aborted by its cleanup
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    requestRef.current(controller.signal)
+      .catch(err => {
+        if (!controller.signal.aborted && !isCancelledError(err)) {
+          console.error(`useStoreRequest: Request for ${key} failed:`, err);
+          setError(err instanceof Error ? err : new Error(String(err)));
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [key, reloadCount]);
+
+  const reload = useCallback(() => setReloadCount(count => count + 1), []);
+
+  return { loading, error, reload };
+}
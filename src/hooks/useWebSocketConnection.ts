@@ -2,18 +2,20 @@
 
 import { useCallback, useEffect } from 'react';
 import { useWebSocket } from '@/contexts/WebSocketContext';
-import { WebSocketMessageType } from '@/types/messaging';
+import { MessageType, SendMessageDto, WebSocketMessageType } from '@/types/messaging';
+import { MessageHandler, TypingUpdateHandler, Unsubscribe } from '@/lib/websocket/websocketService';
 
 type UseWebSocketConnectionProps = {
   url?: string;
   autoConnect?: boolean;
-  onMessage?: (message: any) => void;
+  onMessage?: MessageHandler;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: string) => void;
-  onTypingUpdate?: (conversationId: string, typingUsers: string[]) => void;
+  onTypingUpdate?: TypingUpdateHandler;
 };
 
+// Connection lifecycle and callbacks; data comes from useConversations, useMessages and friends
 export function useWebSocketConnection({
   url = 'wss://messaging-api.cerebralvalley.ai/messaging',
   autoConnect = false,
@@ -30,17 +32,11 @@ export function useWebSocketConnection({
     sendTypingStart,
     sendTypingStop,
     markMessagesRead,
-    joinConversation,
-    leaveConversation,
     isConnected,
-    messages,
-    lastMessage,
     connectionStatus,
     connectionError,
-    clearMessages,
     setUserId,
     onMessageEvent,
-    onConversationEvent,
     onTypingUpdate: registerTypingHandler
   } = useWebSocket();
 
@@ -57,32 +53,30 @@ export function useWebSocketConnection({
     };
   }, [autoConnect, url, connect, disconnect]);
 
-  // Register event handlers
+  // Register event handlers; they are removed when the callbacks change or on unmount
   useEffect(() => {
+    const unsubscribes: Unsubscribe[] = [];
+
     // Register generic message handler for all message events
     if (onMessage) {
-      onMessageEvent('message:new', onMessage);
-      onMessageEvent('message:sent', onMessage);
-      onMessageEvent('message:updated', onMessage);
-      onMessageEvent('message:deleted', onMessage);
-      onMessageEvent('message:unsent', onMessage);
-      
-      // Register handlers for new reaction events
-      onMessageEvent('message:reaction:added', onMessage);
-      onMessageEvent('message:reaction:removed', onMessage);
-      
-      // Register handler for mention events
-      onMessageEvent('message:mention', onMessage);
+      unsubscribes.push(
+        onMessageEvent('message:new', onMessage),
+        onMessageEvent('message:sent', onMessage),
+        onMessageEvent('message:updated', onMessage),
+        onMessageEvent('message:deleted', onMessage),
+        onMessageEvent('message:unsent', onMessage),
+        onMessageEvent('message:reaction:added', onMessage),
+        onMessageEvent('message:reaction:removed', onMessage),
+        onMessageEvent('message:mention', onMessage),
+      );
     }
     
     // Register typing handler if provided
     if (onTypingUpdate) {
-      registerTypingHandler('all', onTypingUpdate);
+      unsubscribes.push(registerTypingHandler('all', onTypingUpdate));
     }
     
-    return () => {
-      // Cleanup would be needed here if we implement offMessageEvent
-    };
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
   }, [onMessage, onMessageEvent, onTypingUpdate, registerTypingHandler]);
 
   // Call onConnect callback when connection is established
@@ -106,78 +100,31 @@ export function useWebSocketConnection({
     }
   }, [connectionStatus, connectionError, onError]);
 
-  // Wrapper for sending typed messages
+  // Wrapper for sending typed messages; type goes out as a top-level field, as the server reads it
   const send = useCallback(
-    (type: WebSocketMessageType, payload: any, conversationId: string) => {
-      const message = { 
+    (type: WebSocketMessageType, payload: Pick<SendMessageDto, 'content' | 'messageType' | 'metadata'>, conversationId: string) => {
+      const message: SendMessageDto & { type: WebSocketMessageType } = {
         type,
         content: payload.content,
-        messageType: payload.messageType || 'text',
+        messageType: payload.messageType || MessageType.TEXT,
         metadata: payload.metadata || {}
       };
-      sendMessage(conversationId, message);
+      return sendMessage(conversationId, message);
     },
     [sendMessage]
   );
 
-  // Wrapper for starting typing indicator
-  const startTyping = useCallback(
-    (conversationId: string) => {
-      sendTypingStart(conversationId);
-    },
-    [sendTypingStart]
-  );
-
-  // Wrapper for stopping typing indicator
-  const stopTyping = useCallback(
-    (conversationId: string) => {
-      sendTypingStop(conversationId);
-    },
-    [sendTypingStop]
-  );
-
-  // Wrapper for marking messages as read
-  const markAsRead = useCallback(
-    (conversationId: string) => {
-      markMessagesRead(conversationId);
-    },
-    [markMessagesRead]
-  );
-
-  // Wrapper for joining a conversation
-  const joinRoom = useCallback(
-    (conversationId: string) => {
-      joinConversation(conversationId);
-    },
-    [joinConversation]
-  );
-
-  // Wrapper for leaving a conversation
-  const leaveRoom = useCallback(
-    (conversationId: string) => {
-      leaveConversation(conversationId);
-    },
-    [leaveConversation]
-  );
-
-  // Return onTypingUpdate function from the hook
   return {
     connect,
     disconnect,
     send,
-    sendMessage,
-    startTyping,
-    stopTyping,
-    markAsRead,
-    joinRoom,
-    leaveRoom,
+    startTyping: sendTypingStart,
+    stopTyping: sendTypingStop,
+    markAsRead: markMessagesRead,
     isConnected,
-    messages,
-    lastMessage,
     connectionStatus,
     connectionError,
-    clearMessages,
     setUserId,
     onTypingUpdate: registerTypingHandler
   };
-} 
\ No newline at end of file
+}
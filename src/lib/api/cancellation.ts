@@ -0,0 +1,94 @@
+// Cancellation and timeout helpers for ApiClient requests
+
+import { ApiError, TimeoutError } from './errors';
+
+/**
+ * Thrown when a request is aborted through its signal, e.g. because a newer
+ * request superseded it; callers usually ignore it
+ */
+export class CancelledError extends ApiError {
+  constructor(message: string = 'Request was cancelled') {
+    super(message, 0, 'cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export function isCancelledError(error: unknown): error is CancelledError {
+  return error instanceof CancelledError;
+}
+
+// A signal that aborts when the caller's signal does or when the timeout elapses
+export type RequestDeadline = {
+  signal?: AbortSignal;
+  // The error to throw once the signal has aborted
+  abortError(): ApiError;
+  // Clear the timer once the request has settled
+  dispose(): void;
+};
+
+export function createDeadline(signal?: AbortSignal, timeoutMs?: number, description: string = 'Request'): RequestDeadline {
+  if (!timeoutMs) {
+    return {
+      signal,
+      abortError: () => new CancelledError(`${description} was cancelled`),
+      dispose: () => undefined,
+    };
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    abortError: () => timedOut
+      ? new TimeoutError(`${description} timed out after ${timeoutMs}ms`)
+      : new CancelledError(`${description} was cancelled`),
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Aborts the previous request for a key whenever a new one starts, so only
+ * the latest response for e.g. the selected conversation is applied
+ */
+export class RequestCanceller {
+  private controllers: Map<string, AbortController> = new Map();
+
+  // Cancel any in-flight request for the key and return a signal for the next one
+  next(key: string): AbortSignal {
+    this.cancel(key);
+    const controller = new AbortController();
+    this.controllers.set(key, controller);
+    return controller.signal;
+  }
+
+  cancel(key: string): void {
+    this.controllers.get(key)?.abort();
+    this.controllers.delete(key);
+  }
+
+  // Forget a finished request without aborting it
+  release(key: string): void {
+    this.controllers.delete(key);
+  }
+
+  cancelAll(): void {
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+  }
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import { ApiClient } from './client';
+import { ChunkedUploader, MemoryUploadSessionStore } from './chunkedUpload';
+import { isCancelledError } from './cancellation';
+import { UploadServer, startUploadServer } from './testing/uploadServer';
+
+const PART_SIZE = 1024;
+const USER_ID = 'user-1';
+
+// Five parts, the last one short, with distinct bytes so misordered parts are caught
+function createFile(size: number = PART_SIZE * 4 + 500): File {
+  const bytes = new Uint8Array(size).map((_, index) => index % 251);
+  return new File([bytes], 'video.mp4', { type: 'video/mp4', lastModified: 1700000000000 });
+}
+
+async function contentsOf(file: File): Promise<Buffer> {
+  return Buffer.from(await file.arrayBuffer());
+}
+
+describe('ChunkedUploader', () => {
+  let server: UploadServer;
+  let client: ApiClient;
+  let store: MemoryUploadSessionStore;
+
+  before(async () => {
+    server = await startUploadServer();
+    client = new ApiClient(server.url);
+    // The uploader reports resumes and the client reports the 404s the tests provoke; neither is a failure
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+    return server.close();
+  });
+
+  beforeEach(() => {
+    server.requests.length = 0;
+    store = new MemoryUploadSessionStore();
+  });
+
+  const createUploader = () => new ChunkedUploader({ client, store, partSize: PART_SIZE });
+
+  it('uploads a file in parts and completes it', async () => {
+    const file = createFile();
+
+    const attachment = await createUploader().upload(file, USER_ID);
+
+    const uploadId = attachment.fileUrl.split('/')[2];
+    assert.deepEqual(server.completed.get(uploadId), await contentsOf(file));
+    assert.equal(attachment.fileSize, file.size);
+    assert.equal(server.requests.filter(request => request.startsWith('PUT')).length, 5);
+    assert.deepEqual(store.list(), []);
+  });
+
+  it('resumes an interrupted upload from the parts the server already has', async () => {
+    const file = createFile();
+    const controller = new AbortController();
+
+    // Interrupted after the second part, like a reload or dropped connection
+    await assert.rejects(
+      createUploader().upload(file, USER_ID, {
+        signal: controller.signal,
+        onPartUploaded: bytes => {
+          if (bytes >= PART_SIZE * 2) controller.abort();
+        },
+      }),
+      isCancelledError
+    );
+    const [session] = store.list();
+    assert.equal(session.parts.length, 2);
+
+    // A fresh uploader with the same persisted sessions picks up where the first stopped
+    server.requests.length = 0;
+    const progress: number[] = [];
+    const attachment = await createUploader().upload(file, USER_ID, {
+      onPartUploaded: bytes => progress.push(bytes),
+    });
+
+    assert.deepEqual(server.requests, [
+      `GET /uploads/${session.uploadId}`,
+      `PUT /uploads/${session.uploadId}/parts/3`,
+      `PUT /uploads/${session.uploadId}/parts/4`,
+      `PUT /uploads/${session.uploadId}/parts/5`,
+      `POST /uploads/${session.uploadId}/complete`,
+    ]);
+    assert.deepEqual(progress, [PART_SIZE * 2, PART_SIZE * 3, PART_SIZE * 4, file.size]);
+    assert.equal(attachment.fileName, file.name);
+    assert.deepEqual(server.completed.get(session.uploadId), await contentsOf(file));
+    assert.deepEqual(store.list(), []);
+  });
+
+  it('starts over when the server no longer has the interrupted session', async () => {
+    const file = createFile();
+    const controller = new AbortController();
+
+    await assert.rejects(
+      createUploader().upload(file, USER_ID, {
+        signal: controller.signal,
+        onPartUploaded: bytes => {
+          if (bytes > 0) controller.abort();
+        },
+      }),
+      isCancelledError
+    );
+    const [expired] = store.list();
+    server.uploads.delete(expired.uploadId);
+
+    const attachment = await createUploader().upload(file, USER_ID);
+
+    const uploadId = attachment.fileUrl.split('/')[2];
+    assert.notEqual(uploadId, expired.uploadId);
+    assert.deepEqual(server.completed.get(uploadId), await contentsOf(file));
+  });
+});
@@ -0,0 +1,301 @@
+// Resumable chunked uploads for large attachments
+//
+// Protocol:
+//   POST   /uploads                      { fileName, fileSize, fileType, partSize } -> { uploadId, partSize }
+//   GET    /uploads/:uploadId            -> { uploadId, parts: UploadedPart[] }
+//   PUT    /uploads/:uploadId/parts/:n   raw bytes of part n (1-based) -> UploadedPart
+//   POST   /uploads/:uploadId/complete   { parts } -> MessageAttachmentDto
+//   DELETE /uploads/:uploadId            abandon the upload
+
+import { MessageAttachmentDto } from '@/types/messaging';
+import { ApiClient, ApiCallOptions, api } from './client';
+import { NotFoundError } from './errors';
+import { RetryPolicy } from './retry';
+import { UploadProgressHandler } from './upload';
+import { AttachmentPolicy, enforceAttachmentPolicy } from '@/lib/attachments/policy';
+
+export type UploadedPart = {
+  partNumber: number;
+  etag: string;
+};
+
+// Everything needed to resume an upload after a reload
+export type UploadSession = {
+  uploadId: string;
+  userId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  lastModified: number;
+  partSize: number;
+  parts: UploadedPart[];
+  createdAt: number;
+};
+
+// Persistence backend for upload sessions, keyed by file fingerprint
+export interface UploadSessionStore {
+  load(key: string): UploadSession | null;
+  save(key: string, session: UploadSession): void;
+  remove(key: string): void;
+  list(): UploadSession[];
+}
+
+export type ChunkedUploaderOptions = {
+  // Client the upload endpoints are called through; point it at a stand-in server to test
+  client?: ApiClient;
+  store?: UploadSessionStore;
+  // Requested part size in bytes; the server may choose another (defaults to 5 MB)
+  partSize?: number;
+  // Retry policy for individual parts (defaults to 5 attempts)
+  partRetry?: Partial<RetryPolicy>;
+  // Overrides for the default attachment policy checked by uploadFiles
+  policy?: Partial<AttachmentPolicy>;
+};
+
+const DEFAULT_PART_SIZE = 5 * 1024 * 1024;
+
+const DEFAULT_PART_RETRY: Partial<RetryPolicy> = { maxAttempts: 5, maxDelayMs: 10000 };
+
+/**
+ * Upload sessions kept in memory, used when localStorage is unavailable
+ */
+export class MemoryUploadSessionStore implements UploadSessionStore {
+  private sessions: Map<string, UploadSession> = new Map();
+
+  load(key: string): UploadSession | null {
+    return this.sessions.get(key) ?? null;
+  }
+
+  save(key: string, session: UploadSession): void {
+    this.sessions.set(key, session);
+  }
+
+  remove(key: string): void {
+    this.sessions.delete(key);
+  }
+
+  list(): UploadSession[] {
+    return Array.from(this.sessions.values());
+  }
+}
+
+/**
+ * Upload sessions persisted to localStorage so uploads survive page reloads
+ */
+export class LocalStorageUploadSessionStore implements UploadSessionStore {
+  constructor(private prefix: string = 'messaging-upload:') {}
+
+  load(key: string): UploadSession | null {
+    try {
+      const raw = localStorage.getItem(this.prefix + key);
+      return raw ? JSON.parse(raw) as UploadSession : null;
+    } catch (error) {
+      console.error('LocalStorageUploadSessionStore: Failed to load session:', error);
+      return null;
+    }
+  }
+
+  save(key: string, session: UploadSession): void {
+    try {
+      localStorage.setItem(this.prefix + key, JSON.stringify(session));
+    } catch (error) {
+      console.error('LocalStorageUploadSessionStore: Failed to save session:', error);
+    }
+  }
+
+  remove(key: string): void {
+    localStorage.removeItem(this.prefix + key);
+  }
+
+  list(): UploadSession[] {
+    const sessions: UploadSession[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(this.prefix)) {
+        const session = this.load(key.slice(this.prefix.length));
+        if (session) sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+}
+
+// Pick localStorage in the browser, memory everywhere else
+export function createUploadSessionStore(): UploadSessionStore {
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageUploadSessionStore();
+  }
+  return new MemoryUploadSessionStore();
+}
+
+// Re-selecting the same file after a reload maps back to its session
+function fingerprint(file: File, userId: string): string {
+  return `${userId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Uploads files in parts, retrying failed parts and resuming interrupted
+ * uploads from the parts the server already has
+ */
+export class ChunkedUploader {
+  private client: ApiClient;
+  private store: UploadSessionStore;
+  private partSize: number;
+  private partRetry: Partial<RetryPolicy>;
+  private policy: Partial<AttachmentPolicy>;
+
+  constructor(options: ChunkedUploaderOptions = {}) {
+    this.client = options.client ?? api;
+    this.store = options.store ?? createUploadSessionStore();
+    this.partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    this.partRetry = { ...DEFAULT_PART_RETRY, ...options.partRetry };
+    this.policy = options.policy ?? {};
+  }
+
+  // Upload files one after another; progress covers all of them
+  async uploadFiles(
+    files: File[],
+    userId: string,
+    options: ApiCallOptions & { onProgress?: UploadProgressHandler } = {}
+  ): Promise<MessageAttachmentDto[]> {
+    await enforceAttachmentPolicy(files, this.policy);
+
+    const loaded = files.map(() => 0);
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const report = () => {
+      const sent = loaded.reduce((sum, bytes) => sum + bytes, 0);
+      options.onProgress?.({
+        loaded: sent,
+        total,
+        percent: total > 0 ? Math.floor((sent / total) * 100) : 100,
+        files: files.map((file, index) => ({ name: file.name, loaded: loaded[index], total: file.size })),
+      });
+    };
+
+    const attachments: MessageAttachmentDto[] = [];
+    for (const [index, file] of files.entries()) {
+      attachments.push(await this.upload(file, userId, {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+        onPartUploaded: bytes => {
+          loaded[index] = bytes;
+          report();
+        },
+      }));
+    }
+    return attachments;
+  }
+
+  // Upload a single file, resuming a previous session for it when one exists
+  async upload(
+    file: File,
+    userId: string,
+    options: ApiCallOptions & { onPartUploaded?: (bytesUploaded: number) => void } = {}
+  ): Promise<MessageAttachmentDto> {
+    const key = fingerprint(file, userId);
+    const request = { userId, signal: options.signal, timeoutMs: options.timeoutMs };
+    const session = await this.resumeSession(key, file, userId, request) ??
+      await this.initiate(key, file, userId, request);
+
+    const partCount = Math.max(1, Math.ceil(file.size / session.partSize));
+    const uploaded = new Set(session.parts.map(part => part.partNumber));
+    const bytesFor = (partNumber: number) =>
+      Math.min(session.partSize, file.size - (partNumber - 1) * session.partSize);
+    let bytesUploaded = Array.from(uploaded).reduce((sum, n) => sum + bytesFor(n), 0);
+    options.onPartUploaded?.(bytesUploaded);
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (uploaded.has(partNumber)) continue;
+
+      const start = (partNumber - 1) * session.partSize;
+      const part = await this.client.put<UploadedPart>(
+        `/uploads/${session.uploadId}/parts/${partNumber}`,
+        file.slice(start, start + session.partSize),
+        { ...request, retry: this.partRetry }
+      );
+
+      session.parts.push({ partNumber, etag: part.etag });
+      this.store.save(key, session);
+      bytesUploaded += bytesFor(partNumber);
+      options.onPartUploaded?.(bytesUploaded);
+    }
+
+    const attachment = await this.client.post<MessageAttachmentDto>(
+      `/uploads/${session.uploadId}/complete`,
+      { parts: [...session.parts].sort((a, b) => a.partNumber - b.partNumber) },
+      { ...request, idempotencyKey: session.uploadId }
+    );
+    this.store.remove(key);
+    return attachment;
+  }
+
+  // Abandon a file's upload on the server and forget its session
+  async abort(file: File, userId: string): Promise<void> {
+    const key = fingerprint(file, userId);
+    const session = this.store.load(key);
+    if (!session) return;
+
+    this.store.remove(key);
+    await this.client.delete(`/uploads/${session.uploadId}`, { userId }).catch(error => {
+      console.error(`ChunkedUploader: Failed to abort upload ${session.uploadId}:`, error);
+    });
+  }
+
+  // Sessions left unfinished for a user, e.g. to offer resuming after a reload
+  getPendingUploads(userId: string): UploadSession[] {
+    return this.store.list().filter(session => session.userId === userId);
+  }
+
+  private async initiate(
+    key: string,
+    file: File,
+    userId: string,
+    request: ApiCallOptions & { userId: string }
+  ): Promise<UploadSession> {
+    const { uploadId, partSize } = await this.client.post<{ uploadId: string; partSize?: number }>(
+      '/uploads',
+      { fileName: file.name, fileSize: file.size, fileType: file.type, partSize: this.partSize },
+      request
+    );
+
+    const session: UploadSession = {
+      uploadId,
+      userId,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      lastModified: file.lastModified,
+      partSize: partSize ?? this.partSize,
+      parts: [],
+      createdAt: Date.now(),
+    };
+    this.store.save(key, session);
+    return session;
+  }
+
+  // Reconcile a stored session with the parts the server actually received
+  private async resumeSession(
+    key: string,
+    file: File,
+    userId: string,
+    request: ApiCallOptions & { userId: string }
+  ): Promise<UploadSession | null> {
+    const session = this.store.load(key);
+    if (!session || session.userId !== userId || session.fileSize !== file.size) return null;
+
+    try {
+      const { parts } = await this.client.get<{ parts: UploadedPart[] }>(`/uploads/${session.uploadId}`, request);
+      const resumed = { ...session, parts };
+      this.store.save(key, resumed);
+      console.log(`ChunkedUploader: Resuming ${file.name} with ${parts.length} parts already uploaded`);
+      return resumed;
+    } catch (error) {
+      // Expired or already completed; start over
+      if (error instanceof NotFoundError) {
+        this.store.remove(key);
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -1,28 +1,99 @@
 // Base API client for making requests to the backend
 
+import { AuthProvider, defaultAuthProvider } from '@/lib/auth/authProvider';
+import {
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  RetryPolicy,
+  getBackoffDelay,
+  getRetryDelay,
+  isRetryableRequest,
+  sleep,
+} from './retry';
+import { ApiError, NetworkError, createApiError } from './errors';
+import { CancelledError, createDeadline } from './cancellation';
+import {
+  ApiMiddleware,
+  ApiRequestContext,
+  RequestBody,
+  runErrorMiddleware,
+  runRequestMiddleware,
+  runResponseMiddleware,
+} from './middleware';
+import { UploadProgressHandler, sendWithProgress } from './upload';
+import { createClockSkewMiddleware } from '@/lib/time/serverClock';
+
 const DEFAULT_API_URL = 'https://messaging-api.cerebralvalley.ai';
 
-type RequestOptions = {
+export type RequestOptions = {
   headers?: Record<string, string>;
   params?: Record<string, string>;
   apiUrl?: string;
   userId?: string; 
   apiKey?: string;
+  // Sent as the Idempotency-Key header so the server can drop duplicate retries
+  idempotencyKey?: string;
+  // Overrides the client's retry policy; false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Aborts the request; the call rejects with CancelledError
+  signal?: AbortSignal;
+  // Overall deadline including retries; the call rejects with TimeoutError
+  timeoutMs?: number;
+  // Reports upload progress for FormData bodies
+  onUploadProgress?: UploadProgressHandler;
 };
 
-type RequestBody = Record<string, any> | null;
+// Cancellation options accepted by every service method
+export type ApiCallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>;
+
+// A request resolved to everything a single fetch needs
+type PreparedRequest = {
+  method: string;
+  url: string;
+  endpoint: string;
+  attempt: number;
+  meta: Record<string, unknown>;
+  body?: RequestBody;
+  userId?: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  onUploadProgress?: UploadProgressHandler;
+};
 
 export class ApiClient {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
+  private authProvider: AuthProvider;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private middleware: ApiMiddleware[] = [];
 
-  constructor(baseUrl: string = DEFAULT_API_URL) {
+  constructor(baseUrl: string = DEFAULT_API_URL, authProvider: AuthProvider = defaultAuthProvider) {
     this.baseUrl = baseUrl;
+    this.authProvider = authProvider;
     this.defaultHeaders = {
       'Content-Type': 'application/json',
     };
   }
 
+  // Replace the credentials used for subsequent requests
+  setAuthProvider(authProvider: AuthProvider): void {
+    this.authProvider = authProvider;
+  }
+
+  // Change the default retry policy for subsequent requests
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  // Register middleware run around every request; returns a function that removes it
+  use(middleware: ApiMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    return () => {
+      this.middleware = this.middleware.filter(m => m !== middleware);
+    };
+  }
+
   // Helper to build URL with query parameters
   private buildUrl(endpoint: string, params?: Record<string, string>): string {
     const url = new URL(`${this.baseUrl}${endpoint}`);
@@ -38,22 +109,28 @@ export class ApiClient {
     return url.toString();
   }
 
-  // Get headers with auth token if userId is provided
-  private getHeaders(userId?: string, apiKey?: string, customHeaders: Record<string, string> = {}): Record<string, string> {
-    const headers = { ...this.defaultHeaders, ...customHeaders };
+  // Get headers with credentials from the auth provider
+  private async getHeaders(
+    userId?: string,
+    apiKey?: string,
+    customHeaders: Record<string, string> = {},
+    body?: RequestBody
+  ): Promise<Record<string, string>> {
+    const authHeaders = await this.authProvider.getHeaders(userId);
+    const headers = { ...this.defaultHeaders, ...authHeaders, ...customHeaders };
+
+    // The browser sets the multipart Content-Type with its boundary
+    if (body instanceof FormData) {
+      delete headers['Content-Type'];
+    } else if (body instanceof Blob) {
+      headers['Content-Type'] = body.type || 'application/octet-stream';
+    }
     
-    // Add authorization header if userId is provided
+    // An explicit API key overrides the provider's
     if (apiKey) {
       headers['x-api-key'] = apiKey;
     }
     
-    // Add user ID as a separate header
-    if (userId) {
-      headers['x-user-id'] = userId;
-      // Keep the Authorization header for backward compatibility
-      headers['Authorization'] = `Bearer ${userId}`;
-    }
-    
     return headers;
   }
 
@@ -64,27 +141,57 @@ export class ApiClient {
     body?: RequestBody,
     options: RequestOptions = {}
   ): Promise<T> {
-    const { headers = {}, params, apiUrl, userId } = options;
+    const { params, userId, apiKey, idempotencyKey, retry, signal, timeoutMs, onUploadProgress } = options;
+    const headers = idempotencyKey
+      ? { ...options.headers, [IDEMPOTENCY_KEY_HEADER]: idempotencyKey }
+      : options.headers ?? {};
     
     const url = this.buildUrl(endpoint, params);
-    
-    const requestOptions: RequestInit = {
+    const policy = retry === false
+      ? { ...this.retryPolicy, maxAttempts: 1 }
+      : { ...this.retryPolicy, ...retry };
+    const canRetry = isRetryableRequest(method, headers);
+    const deadline = createDeadline(signal, timeoutMs, `API request ${method} ${endpoint}`);
+    const prepared: PreparedRequest = {
       method,
-      headers: this.getHeaders(userId, "test_key", headers),
+      url,
+      endpoint,
+      attempt: 1,
+      meta: {},
+      body,
+      userId,
+      apiKey,
+      headers,
+      signal: deadline.signal,
+      onUploadProgress,
     };
 
-    if (body) {
-      requestOptions.body = JSON.stringify(body);
-    }
-
     try {
-      const response = await fetch(url, requestOptions);
+      let response: Response | undefined;
+
+      for (let attempt = 1; !response; attempt++) {
+        const isLastAttempt = !canRetry || attempt >= policy.maxAttempts;
+        prepared.attempt = attempt;
+
+        try {
+          response = await this.sendWithAuth(prepared);
+        } catch (error) {
+          if (isLastAttempt || !policy.retryNetworkErrors || deadline.signal?.aborted) throw error;
+          await sleep(getBackoffDelay(attempt, policy), deadline.signal);
+          continue;
+        }
+
+        const delay = !response.ok && !isLastAttempt ? getRetryDelay(response, attempt, policy) : null;
+        if (delay !== null) {
+          console.warn(`API request ${method} ${endpoint} failed with ${response.status}, retrying in ${delay}ms`);
+          response = undefined;
+          await sleep(delay, deadline.signal);
+          if (deadline.signal?.aborted) throw deadline.abortError();
+        }
+      }
       
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `API request failed: ${response.status} ${response.statusText}. ${JSON.stringify(errorData)}`
-        );
+        throw await createApiError(response);
       }
 
       // Check if response is empty
@@ -95,9 +202,68 @@ export class ApiClient {
       
       return {} as T;
     } catch (error) {
-      console.error('API request error:', error);
-      throw error;
+      let failure = deadline.signal?.aborted ? deadline.abortError() : error;
+      if (failure instanceof ApiError) {
+        failure = await runErrorMiddleware(this.middleware, failure, this.toContext(prepared));
+      }
+      if (!(failure instanceof CancelledError)) {
+        console.error('API request error:', failure);
+      }
+      throw failure;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  // Fetch once, refreshing credentials and retrying once if the server rejects them
+  private async sendWithAuth(request: PreparedRequest): Promise<Response> {
+    const response = await this.send(request);
+
+    if (response.status === 401 && this.authProvider.refresh && await this.authProvider.refresh()) {
+      return this.send(request);
+    }
+
+    return response;
+  }
+
+  // Perform a single fetch with fresh auth headers, passing it through middleware
+  private async send(request: PreparedRequest): Promise<Response> {
+    const context = await runRequestMiddleware(this.middleware, {
+      ...this.toContext(request),
+      headers: await this.getHeaders(request.userId, request.apiKey, request.headers, request.body),
+    });
+    const { method, url, body, headers } = context;
+    const requestOptions: RequestInit = {
+      method,
+      headers,
+      signal: request.signal,
+    };
+
+    if (this.authProvider.credentials) {
+      requestOptions.credentials = this.authProvider.credentials;
+    }
+
+    if (body) {
+      requestOptions.body = body instanceof FormData || body instanceof Blob ? body : JSON.stringify(body);
     }
+
+    let response: Response;
+    try {
+      response = request.onUploadProgress && body instanceof FormData
+        ? await sendWithProgress(url, { ...requestOptions, body }, request.onUploadProgress)
+        : await fetch(url, requestOptions);
+    } catch (error) {
+      // Aborts are mapped to CancelledError or TimeoutError by the caller
+      if (request.signal?.aborted) throw error;
+      throw new NetworkError(`Network request failed: ${method} ${url}`, error);
+    }
+
+    return runResponseMiddleware(this.middleware, response, context);
+  }
+
+  private toContext(request: PreparedRequest): ApiRequestContext {
+    const { method, url, endpoint, headers, body, userId, attempt, meta } = request;
+    return { method, url, endpoint, headers: { ...headers }, body, userId, attempt, meta };
   }
 
   // HTTP methods
@@ -120,7 +286,13 @@ export class ApiClient {
   async delete<T>(endpoint: string, options?: RequestOptions): Promise<T> {
     return this.request<T>('DELETE', endpoint, null, options);
   }
+
+  // Multipart upload with optional progress reporting
+  async upload<T>(endpoint: string, formData: FormData, options?: RequestOptions): Promise<T> {
+    return this.request<T>('POST', endpoint, formData, options);
+  }
 }
 
 // Export a default instance
-export const api = new ApiClient(); 
\ No newline at end of file
+export const api = new ApiClient();
+api.use(createClockSkewMiddleware()); 
\ No newline at end of file
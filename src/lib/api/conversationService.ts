@@ -1,4 +1,4 @@
-import { api } from './client';
+import { api, ApiCallOptions } from './client';
 import { 
   ConversationChannel, 
   ConversationChannelMessage, 
@@ -11,41 +11,55 @@ import {
   ConversationChannelMessageReaction,
   MessageMentionDto
 } from '@/types/messaging';
+import { generateId } from '@/lib/utils';
+import { UploadProgressHandler } from './upload';
+import { ProcessedAttachment } from '@/lib/attachments/pipeline';
+import { AttachmentPolicy, enforceAttachmentPolicy } from '@/lib/attachments/policy';
+import {
+  normalizeConversation,
+  normalizeEditHistory,
+  normalizeMessage,
+  normalizeReaction,
+} from '@/lib/time/timestamps';
+import { serverClock } from '@/lib/time/serverClock';
+
+// Every entity returned below has its timestamps normalized to UTC ISO instants
 
 export class ConversationService {
   // Create a new conversation
-  static async createConversation(userId: string, data: CreateConversationDto): Promise<ConversationChannel> {
-    return api.post<ConversationChannel>('/conversations', data, { userId });
+  static async createConversation(userId: string, data: CreateConversationDto, request?: ApiCallOptions): Promise<ConversationChannel> {
+    return api.post<ConversationChannel>('/conversations', data, { userId, ...request }).then(normalizeConversation);
   }
 
   // Get all conversations for current user
-  static async getConversations(userId: string): Promise<ConversationChannel[]> {
-    return api.get<ConversationChannel[]>('/conversations', { userId });
+  static async getConversations(userId: string, request?: ApiCallOptions): Promise<ConversationChannel[]> {
+    const conversations = await api.get<ConversationChannel[]>('/conversations', { userId, ...request });
+    return conversations.map(normalizeConversation);
   }
 
   // Get a conversation by id
-  static async getConversation(id: string, userId: string): Promise<ConversationChannel> {
-    return api.get<ConversationChannel>(`/conversations/${id}`, { userId });
+  static async getConversation(id: string, userId: string, request?: ApiCallOptions): Promise<ConversationChannel> {
+    return api.get<ConversationChannel>(`/conversations/${id}`, { userId, ...request }).then(normalizeConversation);
   }
 
   // Update a conversation
-  static async updateConversation(id: string, updates: UpdateConversationDto, userId: string): Promise<ConversationChannel> {
-    return api.patch<ConversationChannel>(`/conversations/${id}`, updates, { userId });
+  static async updateConversation(id: string, updates: UpdateConversationDto, userId: string, request?: ApiCallOptions): Promise<ConversationChannel> {
+    return api.patch<ConversationChannel>(`/conversations/${id}`, updates, { userId, ...request }).then(normalizeConversation);
   }
 
   // Add a member to a conversation
-  static async addMember(conversationId: string, memberUserId: string, userId: string): Promise<{ success: boolean }> {
-    return api.post<{ success: boolean }>(`/conversations/${conversationId}/members/${memberUserId}`, {}, { userId });
+  static async addMember(conversationId: string, memberUserId: string, userId: string, request?: ApiCallOptions): Promise<{ success: boolean }> {
+    return api.post<{ success: boolean }>(`/conversations/${conversationId}/members/${memberUserId}`, {}, { userId, ...request });
   }
 
   // Remove a member from a conversation
-  static async removeMember(conversationId: string, memberUserId: string, userId: string): Promise<{ success: boolean }> {
-    return api.delete<{ success: boolean }>(`/conversations/${conversationId}/members/${memberUserId}`, { userId });
+  static async removeMember(conversationId: string, memberUserId: string, userId: string, request?: ApiCallOptions): Promise<{ success: boolean }> {
+    return api.delete<{ success: boolean }>(`/conversations/${conversationId}/members/${memberUserId}`, { userId, ...request });
   }
 
   // Leave a conversation (remove current user)
-  static async leaveConversation(conversationId: string, userId: string): Promise<{ success: boolean }> {
-    return api.delete<{ success: boolean }>(`/conversations/${conversationId}/members`, { userId });
+  static async leaveConversation(conversationId: string, userId: string, request?: ApiCallOptions): Promise<{ success: boolean }> {
+    return api.delete<{ success: boolean }>(`/conversations/${conversationId}/members`, { userId, ...request });
   }
 
   // Get messages from a conversation
@@ -55,12 +69,17 @@ export class ConversationService {
     options?: {
       limit?: number;
       before?: string; // Message ID for pagination
-    }
+      after?: string;  // Message ID; returns newer messages
+      around?: string; // Message ID; returns up to limit/2 messages on each side of it
+    },
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessage[]> {
-    return api.get<ConversationChannelMessage[]>(`/conversations/${conversationId}/messages`, {
+    const messages = await api.get<ConversationChannelMessage[]>(`/conversations/${conversationId}/messages`, {
       params: options as Record<string, string>,
-      userId
+      userId,
+      ...request
     });
+    return messages.map(normalizeMessage);
   }
 
   // Send a message to a conversation with optional role
@@ -68,10 +87,21 @@ export class ConversationService {
     conversationId: string, 
     messageData: SendMessageDto, 
     userId: string,
-    role: ChatRoleType = ChatRoleType.USER  // Default to USER role
+    role: ChatRoleType = ChatRoleType.USER,  // Default to USER role
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessage> {
     const data = { ...messageData, role };
-    return api.post<ConversationChannelMessage>(`/conversations/${conversationId}/messages`, data, { userId });
+    // Reuse the client message ID so a resend of the same message is also deduplicated
+    const idempotencyKey = messageData.clientMessageId ?? generateId();
+    const sentAt = Date.now();
+    const message = await api.post<ConversationChannelMessage>(`/conversations/${conversationId}/messages`, data, {
+      userId,
+      idempotencyKey,
+      ...request
+    });
+    // The new message is stamped with the server's time, which samples its clock
+    serverClock.observe(message.createdAt, sentAt);
+    return normalizeMessage(message);
   }
 
   // Edit a message
@@ -80,28 +110,29 @@ export class ConversationService {
     messageId: string, 
     content: string,
     userId: string,
-    editReason?: string
+    editReason?: string,
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessage> {
     return api.put<ConversationChannelMessage>(
       `/conversations/${conversationId}/messages/${messageId}`, 
       { content, editReason },
-      { userId }
-    );
+      { userId, ...request }
+    ).then(normalizeMessage);
   }
 
   // Delete a message (soft delete)
-  static async deleteMessage(conversationId: string, messageId: string, userId: string): Promise<{ success: boolean }> {
+  static async deleteMessage(conversationId: string, messageId: string, userId: string, request?: ApiCallOptions): Promise<{ success: boolean }> {
     return api.delete<{ success: boolean }>(
       `/conversations/${conversationId}/messages/${messageId}`,
-      { userId }
+      { userId, ...request }
     );
   }
 
   // Unsend a message (remove for everyone)
-  static async unsendMessage(conversationId: string, messageId: string, userId: string): Promise<{ success: boolean }> {
+  static async unsendMessage(conversationId: string, messageId: string, userId: string, request?: ApiCallOptions): Promise<{ success: boolean }> {
     return api.delete<{ success: boolean }>(
       `/conversations/${conversationId}/messages/${messageId}/unsend`,
-      { userId }
+      { userId, ...request }
     );
   }
 
@@ -109,27 +140,37 @@ export class ConversationService {
   static async getMessageHistory(
     conversationId: string,
     messageId: string,
-    userId: string
+    userId: string,
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessageEditHistory[]> {
-    return api.get<ConversationChannelMessageEditHistory[]>(
+    const history = await api.get<ConversationChannelMessageEditHistory[]>(
       `/conversations/${conversationId}/messages/${messageId}/history`,
-      { userId }
+      { userId, ...request }
     );
+    return history.map(normalizeEditHistory);
   }
 
   // Send a message with file attachments
   static async sendMessageWithAttachments(
     conversationId: string,
     content: string,
-    files: File[],
+    files: (File | ProcessedAttachment)[],
     userId: string,
     options?: {
       messageType?: MessageType;
       replyToId?: string;
       mentions?: MessageMentionDto[];
       role?: ChatRoleType;
-    }
+      clientMessageId?: string;
+      onProgress?: UploadProgressHandler;
+      // Overrides for the default attachment policy
+      policy?: Partial<AttachmentPolicy>;
+    },
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessage> {
+    // Refuse files the policy rejects before uploading anything
+    await enforceAttachmentPolicy(files.map(file => file instanceof File ? file : file.file), options?.policy);
+    
     // Create FormData object to send files
     const formData = new FormData();
     
@@ -143,39 +184,43 @@ export class ConversationService {
     if (options?.replyToId) {
       formData.append('replyToId', options.replyToId);
     }
+
+    if (options?.clientMessageId) {
+      formData.append('clientMessageId', options.clientMessageId);
+    }
     
     // Add mentions as JSON string if provided
     if (options?.mentions && options.mentions.length > 0) {
       formData.append('mentionsJson', JSON.stringify(options.mentions));
     }
     
-    // Add files to form data
+    // Add files to form data; processed attachments also carry a thumbnail and metadata
+    const processed = files.map(file => file instanceof File ? undefined : file);
     files.forEach(file => {
-      formData.append('files', file);
+      formData.append('files', file instanceof File ? file : file.file);
     });
     
-    // Custom fetch options for FormData with files
-    const fetchOptions: RequestInit = {
-      method: 'POST',
-      headers: {
-        // Don't set Content-Type header, the browser will set it with the boundary for multipart/form-data
-        'Authorization': `Bearer ${userId}`
-      },
-      body: formData
-    };
-    
-    // Make the API call with custom fetch
-    const url = `${api['baseUrl']}/conversations/${conversationId}/messages/with-attachments`;
-    const response = await fetch(url, fetchOptions);
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `Failed to send message with attachments: ${response.status} ${response.statusText}. ${JSON.stringify(errorData)}`
-      );
+    if (processed.some(Boolean)) {
+      processed.forEach(attachment => {
+        if (attachment?.thumbnail) {
+          formData.append('thumbnails', attachment.thumbnail, `thumb-${attachment.file.name}`);
+        }
+      });
+      // Aligned with the files entries, by index
+      formData.append('attachmentsMetadataJson', JSON.stringify(processed.map(attachment => ({
+        width: attachment?.metadata.width,
+        height: attachment?.metadata.height,
+        blurhash: attachment?.metadata.blurhash,
+        hasThumbnail: !!attachment?.thumbnail,
+      }))));
     }
     
-    return await response.json();
+    // Multipart goes through the client so auth, retries and middleware apply
+    return api.upload<ConversationChannelMessage>(
+      `/conversations/${conversationId}/messages/with-attachments`,
+      formData,
+      { userId, idempotencyKey: options?.clientMessageId ?? generateId(), onUploadProgress: options?.onProgress, ...request }
+    ).then(normalizeMessage);
   }
   
   // Add reaction to a message
@@ -183,13 +228,14 @@ export class ConversationService {
     conversationId: string,
     messageId: string,
     emoji: string,
-    userId: string
+    userId: string,
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessageReaction> {
     return api.post<ConversationChannelMessageReaction>(
       `/conversations/${conversationId}/messages/${messageId}/reactions`,
       { emoji },
-      { userId }
-    );
+      { userId, idempotencyKey: generateId(), ...request }
+    ).then(normalizeReaction);
   }
   
   // Remove reaction from a message
@@ -197,11 +243,12 @@ export class ConversationService {
     conversationId: string,
     messageId: string,
     emoji: string,
-    userId: string
+    userId: string,
+    request?: ApiCallOptions
   ): Promise<{ success: boolean }> {
     return api.delete<{ success: boolean }>(
       `/conversations/${conversationId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`,
-      { userId }
+      { userId, ...request }
     );
   }
   
@@ -209,11 +256,13 @@ export class ConversationService {
   static async getReactions(
     conversationId: string,
     messageId: string,
-    userId: string
+    userId: string,
+    request?: ApiCallOptions
   ): Promise<ConversationChannelMessageReaction[]> {
-    return api.get<ConversationChannelMessageReaction[]>(
+    const reactions = await api.get<ConversationChannelMessageReaction[]>(
       `/conversations/${conversationId}/messages/${messageId}/reactions`,
-      { userId }
+      { userId, ...request }
     );
+    return reactions.map(normalizeReaction);
   }
 } 
\ No newline at end of file
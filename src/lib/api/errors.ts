@@ -0,0 +1,138 @@
+// Typed errors thrown by ApiClient
+
+import { parseRetryAfter } from './retry';
+
+/**
+ * Error for a failed API request
+ * status is 0 when no response was received
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly details?: unknown,
+    public readonly requestId?: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// 400 or 422; details holds the per-field messages when the backend sends them
+export class ValidationError extends ApiError {
+  constructor(message: string, status: number, code?: string, details?: unknown, requestId?: string) {
+    super(message, status, code, details, requestId);
+    this.name = 'ValidationError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string, code?: string, details?: unknown, requestId?: string) {
+    super(message, 401, code, details, requestId);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// The user is authenticated but not allowed, e.g. no longer a conversation member
+export class ForbiddenError extends ApiError {
+  constructor(message: string, code?: string, details?: unknown, requestId?: string) {
+    super(message, 403, code, details, requestId);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, code?: string, details?: unknown, requestId?: string) {
+    super(message, 404, code, details, requestId);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    public readonly retryAfterMs: number | null,
+    code?: string,
+    details?: unknown,
+    requestId?: string
+  ) {
+    super(message, 429, code, details, requestId);
+    this.name = 'RateLimitError';
+  }
+}
+
+// The request never got a response (offline, DNS failure, CORS, connection reset)
+export class NetworkError extends ApiError {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message, 0, 'network_error');
+    this.name = 'NetworkError';
+  }
+}
+
+// The request or the gateway in front of the backend timed out
+export class TimeoutError extends ApiError {
+  constructor(message: string, status: number = 0, code: string = 'timeout', details?: unknown, requestId?: string) {
+    super(message, status, code, details, requestId);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Error body shapes returned by the backend (NestJS style, with optional extras)
+type ErrorBody = {
+  statusCode?: number;
+  message?: string | string[];
+  error?: string;
+  code?: string;
+  details?: unknown;
+  requestId?: string;
+};
+
+function isErrorBody(value: unknown): value is ErrorBody {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Build the typed error for a non-OK response
+export async function createApiError(response: Response): Promise<ApiError> {
+  const text = await response.text().catch(() => '');
+  let body: ErrorBody = {};
+  try {
+    const parsed: unknown = text ? JSON.parse(text) : {};
+    body = isErrorBody(parsed) ? parsed : {};
+  } catch {
+    body = text ? { message: text } : {};
+  }
+
+  // Validation failures list one message per field
+  const messages = Array.isArray(body.message) ? body.message : undefined;
+  const message = messages?.join('; ') || (body.message as string | undefined) ||
+    `${response.status} ${response.statusText}`.trim();
+  const code = body.code ?? body.error?.toLowerCase().replace(/\s+/g, '_');
+  const details = body.details ?? messages;
+  const requestId = response.headers.get('x-request-id') ?? body.requestId;
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, response.status, code, details, requestId);
+    case 401:
+      return new UnauthorizedError(message, code, details, requestId);
+    case 403:
+      return new ForbiddenError(message, code, details, requestId);
+    case 404:
+      return new NotFoundError(message, code, details, requestId);
+    case 408:
+    case 504:
+      return new TimeoutError(message, response.status, code, details, requestId);
+    case 429:
+      return new RateLimitError(
+        message,
+        parseRetryAfter(response.headers.get('Retry-After')),
+        code,
+        details,
+        requestId
+      );
+    default:
+      return new ApiError(message, response.status, code, details, requestId);
+  }
+}
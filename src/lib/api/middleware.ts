@@ -0,0 +1,81 @@
+// Middleware hooks for ApiClient requests
+
+import { ApiError } from './errors';
+
+// JSON objects are serialized; FormData and Blob bodies are sent as-is
+export type RequestBody = object | FormData | Blob | null;
+
+// One HTTP attempt as seen by middleware
+export type ApiRequestContext = {
+  method: string;
+  url: string;
+  // Path passed to ApiClient, without base URL or query string
+  endpoint: string;
+  headers: Record<string, string>;
+  body?: RequestBody;
+  userId?: string;
+  // 1 for the first attempt, incremented on each retry
+  attempt: number;
+  // Shared by every hook and attempt of a single call, e.g. for timings
+  meta: Record<string, unknown>;
+};
+
+/**
+ * Hooks run around every ApiClient request
+ * onRequest runs in registration order before each attempt; onResponse runs
+ * in reverse order after each attempt; onError runs in reverse order once
+ * for the error a call finally rejects with
+ * Each hook may return a replacement value or nothing to keep the current one
+ */
+export type ApiMiddleware = {
+  name?: string;
+  onRequest?: (context: ApiRequestContext) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+  onResponse?: (response: Response, context: ApiRequestContext) => Response | void | Promise<Response | void>;
+  onError?: (error: ApiError, context: ApiRequestContext) => ApiError | void | Promise<ApiError | void>;
+};
+
+export async function runRequestMiddleware(
+  middleware: ApiMiddleware[],
+  context: ApiRequestContext
+): Promise<ApiRequestContext> {
+  let current = context;
+  for (const m of middleware) {
+    if (m.onRequest) {
+      current = (await m.onRequest(current)) ?? current;
+    }
+  }
+  return current;
+}
+
+export async function runResponseMiddleware(
+  middleware: ApiMiddleware[],
+  response: Response,
+  context: ApiRequestContext
+): Promise<Response> {
+  let current = response;
+  for (const m of [...middleware].reverse()) {
+    if (m.onResponse) {
+      current = (await m.onResponse(current, context)) ?? current;
+    }
+  }
+  return current;
+}
+
+// A failing onError hook is logged and skipped so the original error still surfaces
+export async function runErrorMiddleware(
+  middleware: ApiMiddleware[],
+  error: ApiError,
+  context: ApiRequestContext
+): Promise<ApiError> {
+  let current = error;
+  for (const m of [...middleware].reverse()) {
+    if (m.onError) {
+      try {
+        current = (await m.onError(current, context)) ?? current;
+      } catch (hookError) {
+        console.error(`ApiClient: onError middleware ${m.name ?? ''} failed:`, hookError);
+      }
+    }
+  }
+  return current;
+}
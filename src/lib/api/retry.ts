@@ -0,0 +1,93 @@
+// Retry policies for ApiClient requests
+
+export type RetryPolicy = {
+  // Total attempts, including the first request
+  maxAttempts: number;
+  // Delay before the first retry; doubles on each attempt
+  baseDelayMs: number;
+  // Upper bound for the computed backoff delay
+  maxDelayMs: number;
+  // Give up instead of waiting when the server asks for a longer Retry-After
+  maxRetryAfterMs: number;
+  // Response statuses worth retrying
+  retryOnStatus: number[];
+  // Retry when fetch itself fails (offline, DNS, connection reset)
+  retryNetworkErrors: boolean;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  maxRetryAfterMs: 30000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+};
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Methods that can be repeated without changing the result
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses whose Retry-After header is honored
+const RETRY_AFTER_STATUSES = [429, 503];
+
+// Only idempotent methods, or requests the server can deduplicate, are retried
+export function isRetryableRequest(method: string, headers: Record<string, string>): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase()) ||
+    Object.keys(headers).some(name => name.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase());
+}
+
+// Exponential backoff with full jitter; attempt is 1 for the first retry
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+// Parse Retry-After as either delta seconds or an HTTP date; returns milliseconds
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+// Delay before retrying a response, or null if it should not be retried
+export function getRetryDelay(response: Response, attempt: number, policy: RetryPolicy): number | null {
+  if (!policy.retryOnStatus.includes(response.status)) return null;
+
+  if (RETRY_AFTER_STATUSES.includes(response.status)) {
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxRetryAfterMs ? retryAfter : null;
+    }
+  }
+
+  return getBackoffDelay(attempt, policy);
+}
+
+// Resolves after ms, or as soon as the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,148 @@
+// In-memory stand-in for the /uploads endpoints described in chunkedUpload.ts
+// Node only; used by the tests and for trying ChunkedUploader without the real API
+
+import { createHash } from 'node:crypto';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { MessageAttachmentDto } from '@/types/messaging';
+import { UploadedPart } from '../chunkedUpload';
+
+export type StandInUpload = {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  partSize: number;
+  // Received part bytes, by part number
+  parts: Map<number, Buffer>;
+};
+
+export type UploadServerOptions = {
+  // Defaults to a free port
+  port?: number;
+  // Part size to answer with, overriding the one the client asks for
+  partSize?: number;
+};
+
+export type UploadServer = {
+  url: string;
+  // Sessions not yet completed or aborted, by upload ID
+  uploads: Map<string, StandInUpload>;
+  // Contents of each completed upload, by upload ID
+  completed: Map<string, Buffer>;
+  // Every request received, as "METHOD /path"
+  requests: string[];
+  close(): Promise<void>;
+};
+
+const etagFor = (bytes: Buffer) => createHash('md5').update(bytes).digest('hex');
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+function reply(response: ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    response.writeHead(status).end();
+    return;
+  }
+  response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Start a stand-in upload server on localhost
+ * Point an ApiClient at its url and pass it to ChunkedUploader as the client
+ */
+export async function startUploadServer(options: UploadServerOptions = {}): Promise<UploadServer> {
+  const uploads = new Map<string, StandInUpload>();
+  const completed = new Map<string, Buffer>();
+  const requests: string[] = [];
+  let nextId = 1;
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const method = request.method ?? 'GET';
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    requests.push(`${method} ${path}`);
+
+    const [, root, uploadId, action, partNumber] = path.split('/');
+    if (root !== 'uploads') return reply(response, 404, { message: 'Not found' });
+
+    if (!uploadId) {
+      if (method !== 'POST') return reply(response, 404, { message: 'Not found' });
+      const body = JSON.parse((await readBody(request)).toString() || '{}');
+      const upload: StandInUpload = {
+        uploadId: `upload-${nextId++}`,
+        fileName: body.fileName,
+        fileSize: body.fileSize,
+        fileType: body.fileType,
+        partSize: options.partSize ?? body.partSize,
+        parts: new Map(),
+      };
+      uploads.set(upload.uploadId, upload);
+      return reply(response, 201, { uploadId: upload.uploadId, partSize: upload.partSize });
+    }
+
+    const upload = uploads.get(uploadId);
+    if (!upload) return reply(response, 404, { message: `Upload ${uploadId} not found` });
+
+    if (!action && method === 'GET') {
+      const parts: UploadedPart[] = Array.from(upload.parts, ([n, bytes]) => ({ partNumber: n, etag: etagFor(bytes) }));
+      return reply(response, 200, { uploadId, parts });
+    }
+
+    if (!action && method === 'DELETE') {
+      uploads.delete(uploadId);
+      return reply(response, 204);
+    }
+
+    if (action === 'parts' && method === 'PUT') {
+      const n = Number(partNumber);
+      const bytes = await readBody(request);
+      upload.parts.set(n, bytes);
+      return reply(response, 200, { partNumber: n, etag: etagFor(bytes) });
+    }
+
+    if (action === 'complete' && method === 'POST') {
+      const { parts } = JSON.parse((await readBody(request)).toString()) as { parts: UploadedPart[] };
+      const matches = parts.every(part => {
+        const bytes = upload.parts.get(part.partNumber);
+        return bytes && etagFor(bytes) === part.etag;
+      });
+      const contents = Buffer.concat(parts.map(part => upload.parts.get(part.partNumber) ?? Buffer.alloc(0)));
+      if (!matches || contents.length !== upload.fileSize) {
+        return reply(response, 400, { message: 'Parts do not match the upload' });
+      }
+
+      uploads.delete(uploadId);
+      completed.set(uploadId, contents);
+      const attachment: MessageAttachmentDto = {
+        fileUrl: `/files/${uploadId}/${encodeURIComponent(upload.fileName)}`,
+        fileName: upload.fileName,
+        fileSize: upload.fileSize,
+        fileType: upload.fileType,
+      };
+      return reply(response, 200, attachment);
+    }
+
+    return reply(response, 404, { message: 'Not found' });
+  };
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch(error => reply(response, 500, { message: String(error) }));
+  });
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    uploads,
+    completed,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => error ? reject(error) : resolve());
+    }),
+  };
+}
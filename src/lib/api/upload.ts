@@ -0,0 +1,115 @@
+// Multipart uploads with progress reporting
+// fetch cannot report upload progress, so these requests go through XMLHttpRequest
+
+export type FileUploadProgress = {
+  name: string;
+  loaded: number;
+  total: number;
+};
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  // 0-100, rounded down
+  percent: number;
+  files: FileUploadProgress[];
+};
+
+export type UploadProgressHandler = (progress: UploadProgress) => void;
+
+// Files are written to the multipart body in the order they were appended,
+// so bytes sent are attributed to each file in turn after scaling out the
+// form fields and boundaries
+export function getUploadProgress(formData: FormData, loaded: number, total: number): UploadProgress {
+  const files: File[] = [];
+  formData.forEach(value => {
+    if (value instanceof File) {
+      files.push(value);
+    }
+  });
+
+  const fileBytes = files.reduce((sum, file) => sum + file.size, 0);
+  let remaining = total > 0 ? loaded * (fileBytes / total) : 0;
+
+  return {
+    loaded,
+    total,
+    percent: total > 0 ? Math.floor((loaded / total) * 100) : 0,
+    files: files.map(file => {
+      const fileLoaded = loaded >= total ? file.size : Math.min(file.size, Math.floor(remaining));
+      remaining = Math.max(0, remaining - file.size);
+      return { name: file.name, loaded: fileLoaded, total: file.size };
+    }),
+  };
+}
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+}
+
+// Statuses a Response cannot be constructed with a body for
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Send a multipart request with XMLHttpRequest and resolve with a fetch Response
+ * Rejects with a TypeError on network failure and an AbortError when the signal
+ * aborts, matching fetch so callers can handle both transports alike
+ */
+export function sendWithProgress(
+  url: string,
+  init: RequestInit & { body: FormData },
+  onProgress: UploadProgressHandler
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const { signal } = init;
+
+    if (signal?.aborted) {
+      reject(new DOMException('Upload aborted', 'AbortError'));
+      return;
+    }
+
+    xhr.open(init.method ?? 'POST', url);
+    xhr.withCredentials = init.credentials === 'include';
+    Object.entries((init.headers ?? {}) as Record<string, string>).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    xhr.upload.onprogress = (event) => {
+      const total = event.lengthComputable ? event.total : event.loaded;
+      onProgress(getUploadProgress(init.body, event.loaded, total));
+    };
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+      }));
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.ontimeout = xhr.onerror;
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('Upload aborted', 'AbortError'));
+    };
+
+    xhr.send(init.body);
+  });
+}
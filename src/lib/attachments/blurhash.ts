@@ -0,0 +1,103 @@
+// BlurHash encoder (https://blurha.sh), producing compact placeholders for images
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encode83(value: number, length: number): string {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += DIGITS[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number): number {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+type Color = [number, number, number];
+
+function multiplyBasisFunction(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  basis: (x: number, y: number) => number
+): Color {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const factor = basis(x, y);
+      const offset = 4 * (x + y * width);
+      r += factor * sRGBToLinear(pixels[offset]);
+      g += factor * sRGBToLinear(pixels[offset + 1]);
+      b += factor * sRGBToLinear(pixels[offset + 2]);
+    }
+  }
+
+  const scale = 1 / (width * height);
+  return [r * scale, g * scale, b * scale];
+}
+
+function encodeDC([r, g, b]: Color): number {
+  return (linearToSRGB(r) << 16) + (linearToSRGB(g) << 8) + linearToSRGB(b);
+}
+
+function encodeAC([r, g, b]: Color, maximumValue: number): number {
+  const quantize = (value: number) =>
+    Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5)));
+  return quantize(r) * 19 * 19 + quantize(g) * 19 + quantize(b);
+}
+
+// Encode RGBA pixel data; keep the image small (e.g. 32x32) as cost grows with pixel count
+export function encodeBlurhash(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentX: number = 4,
+  componentY: number = 3
+): string {
+  const factors: Color[] = [];
+  for (let j = 0; j < componentY; j++) {
+    for (let i = 0; i < componentX; i++) {
+      const normalisation = i === 0 && j === 0 ? 1 : 2;
+      factors.push(multiplyBasisFunction(pixels, width, height, (x, y) =>
+        normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height)
+      ));
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83((componentX - 1) + (componentY - 1) * 9, 1);
+
+  let maximumValue = 1;
+  if (ac.length > 0) {
+    const actualMaximum = Math.max(...ac.map(color => Math.max(...color.map(Math.abs))));
+    const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+    maximumValue = (quantisedMaximum + 1) / 166;
+    hash += encode83(quantisedMaximum, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+
+  hash += encode83(encodeDC(dc), 4);
+  ac.forEach(color => {
+    hash += encode83(encodeAC(color, maximumValue), 2);
+  });
+
+  return hash;
+}
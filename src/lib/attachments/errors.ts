@@ -0,0 +1,26 @@
+// Why a file was refused by the attachment policy
+export type AttachmentRejectionReason =
+  | 'extension-blocked'
+  | 'type-not-allowed'
+  | 'file-too-large'
+  | 'message-too-large'
+  | 'too-many-files'
+  // A required processing step, such as metadata stripping, failed
+  | 'processing-failed';
+
+export type AttachmentRejection = {
+  file: File;
+  reason: AttachmentRejectionReason;
+  // Human-readable, prefixed with the file name
+  message: string;
+};
+
+/**
+ * Error thrown before upload when attachments break the policy
+ */
+export class AttachmentPolicyError extends Error {
+  constructor(public readonly rejections: AttachmentRejection[]) {
+    super(rejections.map(rejection => rejection.message).join('; '));
+    this.name = 'AttachmentPolicyError';
+  }
+}
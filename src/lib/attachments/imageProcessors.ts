@@ -0,0 +1,170 @@
+// Canvas-based image processors for the attachment pipeline
+
+import { AttachmentPipeline, AttachmentProcessor, ProcessedAttachment } from './pipeline';
+import { encodeBlurhash } from './blurhash';
+
+export type ImagePipelineOptions = {
+  // Longest edge of uploaded images in pixels (defaults to 2048)
+  maxDimension?: number;
+  // Longest edge of generated thumbnails in pixels (defaults to 320)
+  thumbnailSize?: number;
+  // Encoder quality for lossy formats, 0-1 (defaults to 0.85)
+  quality?: number;
+};
+
+type Canvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Animated and vector formats would be flattened or rasterized by a canvas round trip
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+// Formats kept as-is when re-encoding; anything else becomes JPEG
+const PRESERVED_TYPES = ['image/png', 'image/webp', 'image/jpeg'];
+
+const BLURHASH_SAMPLE_SIZE = 32;
+
+function isProcessableImage(attachment: ProcessedAttachment): boolean {
+  const { type } = attachment.file;
+  return type.startsWith('image/') && !SKIPPED_TYPES.includes(type);
+}
+
+function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function drawImage(source: CanvasImageSource, width: number, height: number): Canvas {
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+function canvasToBlob(canvas: Canvas, type: string, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, quality);
+  });
+}
+
+// Decoding applies the EXIF orientation, so re-encoded pixels are upright
+async function decode(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+/**
+ * Re-encodes images, dropping EXIF/GPS and other embedded metadata, and
+ * downscales anything larger than maxDimension; records the final dimensions
+ */
+export function createImageNormalizer(options: ImagePipelineOptions = {}): AttachmentProcessor {
+  const maxDimension = options.maxDimension ?? 2048;
+  const quality = options.quality ?? 0.85;
+
+  return {
+    name: 'image-normalizer',
+    // Uploading the untouched original would leak the metadata this exists to remove
+    required: true,
+    accepts: isProcessableImage,
+    async process(attachment) {
+      const bitmap = await decode(attachment.file);
+      try {
+        const size = fitWithin(bitmap.width, bitmap.height, maxDimension);
+        const type = PRESERVED_TYPES.includes(attachment.file.type) ? attachment.file.type : 'image/jpeg';
+        const blob = await canvasToBlob(drawImage(bitmap, size.width, size.height), type, quality);
+        const name = type === attachment.file.type
+          ? attachment.file.name
+          : attachment.file.name.replace(/\.[^.]+$/, '') + '.jpg';
+
+        return {
+          ...attachment,
+          file: new File([blob], name, { type, lastModified: attachment.file.lastModified }),
+          metadata: { ...attachment.metadata, ...size },
+        };
+      } finally {
+        bitmap.close();
+      }
+    },
+  };
+}
+
+/**
+ * Generates a JPEG thumbnail no larger than thumbnailSize
+ */
+export function createThumbnailGenerator(options: ImagePipelineOptions = {}): AttachmentProcessor {
+  const thumbnailSize = options.thumbnailSize ?? 320;
+  const quality = options.quality ?? 0.85;
+
+  return {
+    name: 'thumbnail',
+    accepts: isProcessableImage,
+    async process(attachment) {
+      const bitmap = await decode(attachment.file);
+      try {
+        const size = fitWithin(bitmap.width, bitmap.height, thumbnailSize);
+        const thumbnail = await canvasToBlob(drawImage(bitmap, size.width, size.height), 'image/jpeg', quality);
+        return {
+          ...attachment,
+          thumbnail,
+          metadata: {
+            ...attachment.metadata,
+            width: attachment.metadata.width ?? bitmap.width,
+            height: attachment.metadata.height ?? bitmap.height,
+          },
+        };
+      } finally {
+        bitmap.close();
+      }
+    },
+  };
+}
+
+/**
+ * Computes a BlurHash placeholder from a small sample of the image
+ */
+export function createBlurhashEncoder(): AttachmentProcessor {
+  return {
+    name: 'blurhash',
+    accepts: isProcessableImage,
+    async process(attachment) {
+      const bitmap = await decode(attachment.thumbnail ?? attachment.file);
+      try {
+        const size = fitWithin(bitmap.width, bitmap.height, BLURHASH_SAMPLE_SIZE);
+        const canvas = drawImage(bitmap, size.width, size.height);
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+        const { data } = context.getImageData(0, 0, size.width, size.height);
+        return {
+          ...attachment,
+          metadata: { ...attachment.metadata, blurhash: encodeBlurhash(data, size.width, size.height) },
+        };
+      } finally {
+        bitmap.close();
+      }
+    },
+  };
+}
+
+// Normalize, thumbnail and blurhash images; further processors can be added with use()
+export function createImagePipeline(options: ImagePipelineOptions = {}): AttachmentPipeline {
+  return new AttachmentPipeline([
+    createImageNormalizer(options),
+    createThumbnailGenerator(options),
+    createBlurhashEncoder(),
+  ]);
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { AttachmentPipeline, ProcessedAttachment } from './pipeline';
+import { AttachmentPolicyError } from './errors';
+import { createImageNormalizer } from './imageProcessors';
+
+const photo = () => new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe1])], 'photo.heic', { type: 'image/heic' });
+const notes = () => new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+// Stands in for the upload that follows processing
+async function processAndUpload(pipeline: AttachmentPipeline, files: File[], upload: (files: ProcessedAttachment[]) => void) {
+  upload(await pipeline.processAll(files));
+}
+
+describe('AttachmentPipeline', () => {
+  it('rejects the file and uploads nothing when the image normalizer fails', async () => {
+    // createImageBitmap doesn't exist here, so decoding fails as it would for an undecodable image
+    const pipeline = new AttachmentPipeline([createImageNormalizer()]);
+    const upload = mock.fn();
+
+    await assert.rejects(processAndUpload(pipeline, [photo(), notes()], upload), (error: unknown) => {
+      assert.ok(error instanceof AttachmentPolicyError);
+      assert.deepEqual(error.rejections.map(rejection => [rejection.file.name, rejection.reason]), [
+        ['photo.heic', 'processing-failed'],
+      ]);
+      return true;
+    });
+    assert.equal(upload.mock.callCount(), 0);
+  });
+
+  it('skips an optional processor that fails', async () => {
+    const pipeline = new AttachmentPipeline([{
+      name: 'thumbnail',
+      accepts: () => true,
+      process: async () => { throw new Error('decode failed'); },
+    }]);
+    mock.method(console, 'error', () => {});
+
+    const [attachment] = await pipeline.processAll([notes()]);
+
+    assert.equal(attachment.file, attachment.original);
+    assert.deepEqual(attachment.metadata.processedBy, []);
+    mock.restoreAll();
+  });
+
+  it('lists every file a required processor failed on', async () => {
+    const pipeline = new AttachmentPipeline([{
+      name: 'strip-metadata',
+      required: true,
+      accepts: attachment => attachment.file.type.startsWith('image/'),
+      process: async () => { throw new Error('decode failed'); },
+    }]);
+
+    await assert.rejects(pipeline.processAll([photo(), notes(), photo()]), (error: unknown) => {
+      assert.ok(error instanceof AttachmentPolicyError);
+      assert.equal(error.rejections.length, 2);
+      return true;
+    });
+  });
+});
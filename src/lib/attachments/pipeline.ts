@@ -0,0 +1,101 @@
+// Preprocessing applied to attachments before they are uploaded
+
+import { AttachmentPolicyError, AttachmentRejection } from './errors';
+
+// Metadata collected by processors and sent along with the attachment
+export type AttachmentMetadata = {
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  // Size of the file as selected by the user
+  originalSize: number;
+  // Names of the processors that changed the attachment, in order
+  processedBy: string[];
+};
+
+export type ProcessedAttachment = {
+  // The file to upload, possibly re-encoded
+  file: File;
+  // The file as selected by the user
+  original: File;
+  thumbnail?: Blob;
+  metadata: AttachmentMetadata;
+};
+
+/**
+ * A single preprocessing step
+ * Processors run in order, each receiving the previous one's result
+ */
+export interface AttachmentProcessor {
+  name: string;
+  // A required processor that fails rejects the file instead of being skipped
+  required?: boolean;
+  accepts(attachment: ProcessedAttachment): boolean;
+  process(attachment: ProcessedAttachment): Promise<ProcessedAttachment>;
+}
+
+/**
+ * Ordered chain of attachment processors
+ * A failing optional processor is skipped so a bad image never blocks sending;
+ * a failing required one rejects the file with an AttachmentPolicyError
+ */
+export class AttachmentPipeline {
+  private processors: AttachmentProcessor[];
+
+  constructor(processors: AttachmentProcessor[] = []) {
+    this.processors = [...processors];
+  }
+
+  // Append a processor; returns a function that removes it
+  use(processor: AttachmentProcessor): () => void {
+    this.processors = [...this.processors, processor];
+    return () => {
+      this.processors = this.processors.filter(p => p !== processor);
+    };
+  }
+
+  async process(file: File): Promise<ProcessedAttachment> {
+    let attachment: ProcessedAttachment = {
+      file,
+      original: file,
+      metadata: { originalSize: file.size, processedBy: [] },
+    };
+
+    for (const processor of this.processors) {
+      if (!processor.accepts(attachment)) continue;
+
+      try {
+        const result = await processor.process(attachment);
+        attachment = {
+          ...result,
+          metadata: { ...result.metadata, processedBy: [...attachment.metadata.processedBy, processor.name] },
+        };
+      } catch (error) {
+        if (processor.required) {
+          throw new AttachmentPolicyError([{
+            file,
+            reason: 'processing-failed',
+            message: `${file.name}: could not be prepared for upload (${processor.name} failed)`,
+          }]);
+        }
+        console.error(`AttachmentPipeline: Processor ${processor.name} failed for ${file.name}:`, error);
+      }
+    }
+
+    return attachment;
+  }
+
+  // Rejects with every file a required processor failed on, not just the first
+  async processAll(files: File[]): Promise<ProcessedAttachment[]> {
+    const results = await Promise.allSettled(files.map(file => this.process(file)));
+    const rejections: AttachmentRejection[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') continue;
+      if (!(result.reason instanceof AttachmentPolicyError)) throw result.reason;
+      rejections.push(...result.reason.rejections);
+    }
+    if (rejections.length > 0) throw new AttachmentPolicyError(rejections);
+
+    return results.map(result => (result as PromiseFulfilledResult<ProcessedAttachment>).value);
+  }
+}
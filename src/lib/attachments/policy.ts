@@ -0,0 +1,184 @@
+// Attachment policy checked before anything is uploaded
+
+import { AttachmentPolicyError, AttachmentRejection } from './errors';
+
+export type AttachmentPolicy = {
+  // MIME types, or wildcards such as 'image/*', matched against the sniffed type
+  allowedTypes: string[];
+  // Lower-case extensions without the dot, refused whatever the content
+  blockedExtensions: string[];
+  maxFileSize: number;
+  // Combined size of all files in one message
+  maxTotalSize: number;
+  maxFiles: number;
+};
+
+export const DEFAULT_ATTACHMENT_POLICY: AttachmentPolicy = {
+  allowedTypes: [
+    'image/*',
+    'audio/*',
+    'video/*',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+  ],
+  blockedExtensions: ['exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'dll', 'jar', 'apk', 'js', 'vbs', 'ps1', 'sh'],
+  maxFileSize: 250 * 1024 * 1024,
+  maxTotalSize: 500 * 1024 * 1024,
+  maxFiles: 10,
+};
+
+type Signature = {
+  type: string;
+  offset?: number;
+  bytes: (number | null)[];
+};
+
+// Leading bytes of the formats we recognize; null matches any byte
+const SIGNATURES: Signature[] = [
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { type: 'image/bmp', bytes: [0x42, 0x4d] },
+  { type: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { type: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  // OLE compound file: legacy .doc and .xls
+  { type: 'application/x-ole-storage', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+];
+
+// ISO base media brands at offset 8, after the 'ftyp' box header
+const FTYP_BRANDS: Record<string, string> = {
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+  avif: 'image/avif',
+};
+
+// Container formats whose declared type is trusted once the container matches
+const CONTAINER_TYPES: Record<string, string[]> = {
+  'application/zip': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ],
+  'application/x-ole-storage': ['application/msword', 'application/vnd.ms-excel'],
+};
+
+const SNIFF_LENGTH = 32;
+
+function matches(bytes: Uint8Array, signature: Signature): boolean {
+  const offset = signature.offset ?? 0;
+  return signature.bytes.every((byte, i) => byte === null || bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...Array.from(bytes.slice(start, end)));
+}
+
+// Detect a file's type from its content rather than its name or File.type
+export async function sniffMimeType(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_LENGTH).arrayBuffer());
+
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    return FTYP_BRANDS[brand] ?? FTYP_BRANDS[brand.trim()] ?? 'video/mp4';
+  }
+
+  const signature = SIGNATURES.find(s => matches(bytes, s));
+  if (signature) {
+    const declared = CONTAINER_TYPES[signature.type]?.find(type => type === file.type);
+    return declared ?? signature.type;
+  }
+
+  // No known signature: plain text if there are no control bytes
+  const isText = bytes.every(byte => byte === 0x09 || byte === 0x0a || byte === 0x0d || byte >= 0x20);
+  return isText && bytes.length > 0 ? 'text/plain' : 'application/octet-stream';
+}
+
+function isAllowedType(type: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some(allowed =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  );
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+function getExtension(name: string): string {
+  const index = name.lastIndexOf('.');
+  return index >= 0 ? name.slice(index + 1).toLowerCase() : '';
+}
+
+/**
+ * Check files against a policy in order
+ * Count and total size limits accept files until the limit is reached
+ */
+export async function evaluateAttachments(
+  files: File[],
+  policy: Partial<AttachmentPolicy> = {}
+): Promise<{ accepted: File[]; rejections: AttachmentRejection[] }> {
+  const rules = { ...DEFAULT_ATTACHMENT_POLICY, ...policy };
+  const accepted: File[] = [];
+  const rejections: AttachmentRejection[] = [];
+  let totalSize = 0;
+
+  for (const file of files) {
+    const reject = (reason: AttachmentRejection['reason'], message: string) =>
+      rejections.push({ file, reason, message: `${file.name}: ${message}` });
+    const extension = getExtension(file.name);
+
+    if (extension && rules.blockedExtensions.includes(extension)) {
+      reject('extension-blocked', `.${extension} files are not allowed`);
+      continue;
+    }
+
+    if (file.size > rules.maxFileSize) {
+      reject('file-too-large', `exceeds the ${formatSize(rules.maxFileSize)} limit per file`);
+      continue;
+    }
+
+    const detectedType = await sniffMimeType(file);
+    if (!isAllowedType(detectedType, rules.allowedTypes)) {
+      reject('type-not-allowed', `files of type ${detectedType} are not allowed`);
+      continue;
+    }
+
+    if (accepted.length >= rules.maxFiles) {
+      reject('too-many-files', `a message can have at most ${rules.maxFiles} attachments`);
+      continue;
+    }
+
+    if (totalSize + file.size > rules.maxTotalSize) {
+      reject('message-too-large', `attachments would exceed ${formatSize(rules.maxTotalSize)} per message`);
+      continue;
+    }
+
+    accepted.push(file);
+    totalSize += file.size;
+  }
+
+  return { accepted, rejections };
+}
+
+// Throw an AttachmentPolicyError if any file breaks the policy
+export async function enforceAttachmentPolicy(
+  files: File[],
+  policy: Partial<AttachmentPolicy> = {}
+): Promise<void> {
+  const { rejections } = await evaluateAttachments(files, policy);
+  if (rejections.length > 0) {
+    throw new AttachmentPolicyError(rejections);
+  }
+}
@@ -0,0 +1,130 @@
+// Authentication providers shared by ApiClient and WebSocketService
+
+/**
+ * Supplies credentials for HTTP requests and the Socket.io handshake
+ */
+export interface AuthProvider {
+  // Headers added to every HTTP request
+  getHeaders(userId?: string): Promise<Record<string, string>>;
+
+  // Payload sent as the Socket.io handshake `auth` field
+  getSocketAuth(userId: string): Promise<Record<string, string>>;
+
+  // Fetch credentials mode; 'include' also enables cookies on the socket
+  credentials?: RequestCredentials;
+
+  // Obtain fresh credentials after an auth failure
+  // Resolves true when retrying the failed request may now succeed
+  refresh?(): Promise<boolean>;
+}
+
+/**
+ * Static API key with the user ID sent as a header
+ * Intended for development and testing against the API key auth method
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  constructor(private apiKey: string) {}
+
+  async getHeaders(userId?: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'x-api-key': this.apiKey };
+
+    if (userId) {
+      headers['x-user-id'] = userId;
+      // Keep the Authorization header for backward compatibility
+      headers['Authorization'] = `Bearer ${userId}`;
+    }
+
+    return headers;
+  }
+
+  async getSocketAuth(userId: string): Promise<Record<string, string>> {
+    return {
+      token: userId,
+      'x-api-key': this.apiKey,
+      'x-user-id': userId,
+    };
+  }
+}
+
+type TokenSource = () => string | null | Promise<string | null>;
+
+/**
+ * Bearer token obtained from the host application, refreshed on demand
+ */
+export class BearerTokenAuthProvider implements AuthProvider {
+  private token: string | null = null;
+  private refreshing: Promise<boolean> | null = null;
+
+  constructor(private options: {
+    // Returns the current token, e.g. from the session SDK
+    getToken: TokenSource;
+    // Returns a new token after the current one was rejected
+    refreshToken?: TokenSource;
+  }) {}
+
+  async getHeaders(): Promise<Record<string, string>> {
+    const token = await this.getToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  async getSocketAuth(): Promise<Record<string, string>> {
+    const token = await this.getToken();
+    return token ? { token } : {};
+  }
+
+  // Concurrent callers share a single refresh
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      const refreshToken = this.options.refreshToken ?? this.options.getToken;
+      this.refreshing = Promise.resolve(refreshToken())
+        .then(token => {
+          this.token = token;
+          return !!token;
+        })
+        .catch(error => {
+          console.error('BearerTokenAuthProvider: Token refresh failed:', error);
+          this.token = null;
+          return false;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  private async getToken(): Promise<string | null> {
+    if (this.refreshing) {
+      await this.refreshing;
+    }
+    if (!this.token) {
+      this.token = await this.options.getToken();
+    }
+    return this.token;
+  }
+}
+
+/**
+ * Session cookie set by the host application (e.g. Clerk)
+ * Credentials travel as cookies, so no headers are added
+ */
+export class SessionCookieAuthProvider implements AuthProvider {
+  credentials: RequestCredentials = 'include';
+
+  constructor(private onSessionExpired?: () => Promise<boolean>) {}
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return {};
+  }
+
+  async getSocketAuth(): Promise<Record<string, string>> {
+    return {};
+  }
+
+  async refresh(): Promise<boolean> {
+    return this.onSessionExpired ? this.onSessionExpired() : false;
+  }
+}
+
+// Development default until the host application injects its own provider
+export const defaultAuthProvider: AuthProvider = new ApiKeyAuthProvider('test_key');
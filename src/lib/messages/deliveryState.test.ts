@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { at, makeMember, makeMessage } from '@/lib/testing/fixtures';
+import { advanceDeliveryState, computeDeliveryStates } from './deliveryState';
+import { computeReadReceipts } from './readReceipts';
+
+const ME = 'me';
+
+const message = makeMessage('m1', 'c1', { senderId: ME, createdAt: at('09:01:00') });
+
+// States as the views compute them, with receipts from the same members
+function statesFor(
+  messages = [message],
+  members = [makeMember('c1', ME), makeMember('c1', 'bob'), makeMember('c1', 'carol')],
+  deliveries: Record<string, Record<string, string>> = {}
+) {
+  return computeDeliveryStates(messages, members, deliveries, computeReadReceipts(messages, members, ME), ME);
+}
+
+describe('advanceDeliveryState', () => {
+  it('only moves forward', () => {
+    assert.equal(advanceDeliveryState('sent', 'delivered'), 'delivered');
+    assert.equal(advanceDeliveryState('read', 'delivered'), 'read');
+    assert.equal(advanceDeliveryState('delivered', 'sent'), 'delivered');
+  });
+
+  it('only fails pending messages, and lets failed ones retry or be confirmed', () => {
+    assert.equal(advanceDeliveryState('pending', 'failed'), 'failed');
+    assert.equal(advanceDeliveryState('sent', 'failed'), 'sent');
+    assert.equal(advanceDeliveryState('failed', 'pending'), 'pending');
+    assert.equal(advanceDeliveryState('failed', 'sent'), 'sent');
+  });
+});
+
+describe('computeDeliveryStates', () => {
+  it('reports optimistic messages by their send state', () => {
+    const pending = makeMessage('local:x', 'c1', { senderId: ME, sendState: 'pending' });
+    const failed = makeMessage('local:y', 'c1', { senderId: ME, sendState: 'failed' });
+
+    assert.deepEqual(statesFor([pending, failed]), { 'local:x': 'pending', 'local:y': 'failed' });
+  });
+
+  it('leaves out other people\'s messages', () => {
+    assert.deepEqual(statesFor([makeMessage('m2', 'c1', { senderId: 'bob' })]), {});
+  });
+
+  it('is sent until every recipient has it, then delivered', () => {
+    assert.equal(statesFor(undefined, undefined, { m1: { bob: at('09:01:01') } }).m1, 'sent');
+    assert.equal(statesFor(undefined, undefined, { m1: { bob: at('09:01:01'), carol: at('09:01:02') } }).m1, 'delivered');
+  });
+
+  it('counts a read as a delivery', () => {
+    const members = [
+      makeMember('c1', ME),
+      makeMember('c1', 'bob', { lastReadAt: at('09:02:00') }),
+      makeMember('c1', 'carol'),
+    ];
+
+    assert.equal(statesFor(undefined, members, { m1: { carol: at('09:01:02') } }).m1, 'delivered');
+  });
+
+  it('is read once every expected recipient has read it', () => {
+    const members = [
+      makeMember('c1', ME),
+      makeMember('c1', 'bob', { lastReadAt: at('09:02:00') }),
+      makeMember('c1', 'carol', { lastReadAt: at('09:03:00') }),
+    ];
+
+    assert.equal(statesFor(undefined, members).m1, 'read');
+  });
+
+  it('does not wait on members who joined after the message or have left', () => {
+    const members = [
+      makeMember('c1', ME),
+      makeMember('c1', 'bob'),
+      makeMember('c1', 'late', { joinedAt: at('09:05:00') }),
+      makeMember('c1', 'gone', { leftAt: at('09:04:00') }),
+    ];
+
+    assert.equal(statesFor(undefined, members, { m1: { bob: at('09:01:01') } }).m1, 'delivered');
+  });
+
+  it('stays sent when there is nobody to deliver to', () => {
+    assert.equal(statesFor(undefined, [makeMember('c1', ME)]).m1, 'sent');
+  });
+});
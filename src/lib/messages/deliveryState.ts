@@ -0,0 +1,61 @@
+// Delivery state of the user's own messages, for sent/delivered/read ticks
+
+import { ConversationChannelMember, ConversationChannelMessage } from '@/types/messaging';
+import { ConversationReadReceipts, isExpectedReader } from './readReceipts';
+
+// pending → sent → delivered → read, with failed branching off pending
+export type MessageDeliveryState = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+const PROGRESSION: MessageDeliveryState[] = ['pending', 'sent', 'delivered', 'read'];
+
+/**
+ * Apply a transition, ignoring ones that would move a message backwards
+ * Only a pending message can fail; a failed one returns to pending on retry,
+ * or moves on if the server turns out to have accepted it
+ */
+export function advanceDeliveryState(current: MessageDeliveryState, next: MessageDeliveryState): MessageDeliveryState {
+  if (next === 'failed') return current === 'pending' ? next : current;
+  if (current === 'failed') return next;
+  return PROGRESSION.indexOf(next) > PROGRESSION.indexOf(current) ? next : current;
+}
+
+/**
+ * Delivery state of each message sent by senderId, keyed by message ID
+ * Send acks confirm a message as sent; it is delivered once every expected
+ * recipient's client has reported message:delivered or read it, and read
+ * once every expected recipient has read it
+ */
+export function computeDeliveryStates(
+  messages: ConversationChannelMessage[],
+  members: ConversationChannelMember[],
+  deliveriesByMessage: Record<string, Record<string, string>>,
+  receipts: ConversationReadReceipts,
+  senderId: string | undefined
+): Record<string, MessageDeliveryState> {
+  const states: Record<string, MessageDeliveryState> = {};
+
+  messages.forEach(message => {
+    if (!senderId || message.senderId !== senderId) return;
+    if (message.sendState) {
+      states[message.id] = message.sendState;
+      return;
+    }
+
+    const readStatus = receipts.byMessage[message.id];
+    const deliveries = deliveriesByMessage[message.id] ?? {};
+    const recipients = members.filter(member => member.userId !== senderId && isExpectedReader(member, message));
+    const hasReached = (userId: string) =>
+      !!deliveries[userId] || !!readStatus?.seenBy.some(reader => reader.userId === userId);
+
+    let state: MessageDeliveryState = 'sent';
+    if (recipients.length > 0 && recipients.every(member => hasReached(member.userId))) {
+      state = advanceDeliveryState(state, 'delivered');
+    }
+    if (readStatus?.seenByEveryone) {
+      state = advanceDeliveryState(state, 'read');
+    }
+    states[message.id] = state;
+  });
+
+  return states;
+}
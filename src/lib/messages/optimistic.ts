@@ -0,0 +1,61 @@
+// Optimistic updates: show a change before the server confirms it
+
+import { ChatRoleType, ConversationChannelMessage, MessageType, SendMessageDto } from '@/types/messaging';
+import { serverClock } from '@/lib/time/serverClock';
+import { mergeMessages } from './pagination';
+
+const LOCAL_ID_PREFIX = 'local:';
+
+// Placeholder shown until the server-assigned message replaces it
+export function createOptimisticMessage(
+  conversationId: string,
+  senderId: string,
+  message: SendMessageDto & { clientMessageId: string }
+): ConversationChannelMessage {
+  // Server time, so the placeholder sorts among confirmed messages
+  const now = serverClock.nowISO();
+  return {
+    id: `${LOCAL_ID_PREFIX}${message.clientMessageId}`,
+    conversationId,
+    senderId,
+    role: ChatRoleType.USER,
+    content: message.content,
+    messageType: message.messageType ?? MessageType.TEXT,
+    replyToId: message.replyToId,
+    metadata: message.metadata,
+    clientMessageId: message.clientMessageId,
+    sendState: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function isOptimisticMessage(message: Pick<ConversationChannelMessage, 'id'>): boolean {
+  return message.id.startsWith(LOCAL_ID_PREFIX);
+}
+
+// Swap the placeholder for the confirmed message, keeping the list ordered
+export function reconcileMessage(
+  messages: ConversationChannelMessage[],
+  confirmed: ConversationChannelMessage,
+  clientMessageId: string
+): ConversationChannelMessage[] {
+  const withoutPlaceholder = messages.filter(message =>
+    !(isOptimisticMessage(message) && message.clientMessageId === clientMessageId)
+  );
+  return mergeMessages(withoutPlaceholder, [{ ...confirmed, clientMessageId }]);
+}
+
+/**
+ * Apply a change immediately, then run the request
+ * apply returns the function that undoes the change, called if the request fails
+ */
+export async function applyOptimistic<T>(apply: () => () => void, request: () => Promise<T>): Promise<T> {
+  const rollback = apply();
+  try {
+    return await request();
+  } catch (error) {
+    rollback();
+    throw error;
+  }
+}
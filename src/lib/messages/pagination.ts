@@ -0,0 +1,75 @@
+// Cursor pagination over a conversation's message history
+
+import { ConversationChannelMessage } from '@/types/messaging';
+import { ConversationService } from '@/lib/api/conversationService';
+import { ApiCallOptions } from '@/lib/api/client';
+
+// Where a page starts; latest loads the newest messages
+export type MessageCursor =
+  | { latest: true }
+  | { before: string }
+  | { after: string }
+  | { around: string };
+
+export type MessagePage = {
+  // Oldest first
+  messages: ConversationChannelMessage[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+function byCreatedAt(a: ConversationChannelMessage, b: ConversationChannelMessage): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+// Fetch one page of history; hasMore flags are inferred from full pages
+export async function fetchMessagePage(
+  conversationId: string,
+  userId: string,
+  cursor: MessageCursor,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  request?: ApiCallOptions
+): Promise<MessagePage> {
+  const params = 'latest' in cursor ? {} : cursor;
+  const fetched = await ConversationService.getMessages(conversationId, userId, { limit: pageSize, ...params }, request);
+  const messages = [...fetched].sort(byCreatedAt);
+  const isFull = fetched.length >= pageSize;
+
+  if ('before' in cursor) {
+    return { messages, hasMoreBefore: isFull, hasMoreAfter: true };
+  }
+  if ('after' in cursor) {
+    return { messages, hasMoreBefore: true, hasMoreAfter: isFull };
+  }
+  if ('around' in cursor) {
+    const index = messages.findIndex(m => m.id === cursor.around);
+    const half = Math.floor(pageSize / 2);
+    return {
+      messages,
+      hasMoreBefore: index < 0 || index >= half,
+      hasMoreAfter: index < 0 || messages.length - index - 1 >= half,
+    };
+  }
+  return { messages, hasMoreBefore: isFull, hasMoreAfter: false };
+}
+
+// Merge messages into a list without duplicates, keeping it oldest first
+// Incoming copies replace existing ones with the same ID, and optimistic
+// placeholders with the same client message ID
+export function mergeMessages(
+  existing: ConversationChannelMessage[],
+  incoming: ConversationChannelMessage[]
+): ConversationChannelMessage[] {
+  if (incoming.length === 0) return existing;
+
+  const confirmed = new Set(incoming.flatMap(message => message.clientMessageId ? [message.clientMessageId] : []));
+  const byId = new Map(existing
+    .filter(message => !(message.sendState && message.clientMessageId && confirmed.has(message.clientMessageId)))
+    .map(message => [message.id, message]));
+  incoming.forEach(message => {
+    byId.set(message.id, { ...byId.get(message.id), ...message });
+  });
+  return Array.from(byId.values()).sort(byCreatedAt);
+}
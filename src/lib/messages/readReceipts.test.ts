@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { at, makeMember, makeMessage } from '@/lib/testing/fixtures';
+import { computeReadReceipts, findReadPosition } from './readReceipts';
+
+const ME = 'me';
+
+// Three of my messages, a minute apart
+const messages = [
+  makeMessage('m1', 'c1', { senderId: ME, createdAt: at('09:01:00') }),
+  makeMessage('m2', 'c1', { senderId: ME, createdAt: at('09:02:00') }),
+  makeMessage('m3', 'c1', { senderId: ME, createdAt: at('09:03:00') }),
+];
+
+const seenBy = (receipts: ReturnType<typeof computeReadReceipts>, messageId: string) =>
+  receipts.byMessage[messageId].seenBy.map(reader => reader.userId);
+
+describe('findReadPosition', () => {
+  it('prefers the message named by the read event', () => {
+    assert.equal(findReadPosition(messages, { lastReadMessageId: 'm2', lastReadAt: at('09:05:00') }), 1);
+  });
+
+  it('falls back to lastReadAt when the named message is not loaded', () => {
+    assert.equal(findReadPosition(messages, { lastReadMessageId: 'older', lastReadAt: at('09:02:30') }), 1);
+  });
+
+  it('is -1 when nothing loaded has been read', () => {
+    assert.equal(findReadPosition(messages, { lastReadAt: at('08:00:00') }), -1);
+    assert.equal(findReadPosition(messages, {}), -1);
+  });
+});
+
+describe('computeReadReceipts', () => {
+  it('lists who has seen each message and whether everyone has', () => {
+    const receipts = computeReadReceipts(messages, [
+      makeMember('c1', ME, { lastReadAt: at('09:03:00') }),
+      makeMember('c1', 'bob', { lastReadAt: at('09:03:00') }),
+      makeMember('c1', 'carol', { lastReadAt: at('09:01:30') }),
+    ], ME);
+
+    assert.deepEqual(seenBy(receipts, 'm1'), ['bob', 'carol']);
+    assert.deepEqual(seenBy(receipts, 'm3'), ['bob']);
+    assert.equal(receipts.byMessage.m1.seenByEveryone, true);
+    assert.equal(receipts.byMessage.m3.seenByEveryone, false);
+    assert.equal(receipts.byMessage.m3.expectedCount, 2);
+    assert.deepEqual(receipts.lastReadMessageIds, { bob: 'm3', carol: 'm1' });
+  });
+
+  it('leaves the sender out of their own message\'s counts', () => {
+    const receipts = computeReadReceipts([makeMessage('m1', 'c1', { senderId: 'bob', createdAt: at('09:01:00') })], [
+      makeMember('c1', 'bob', { lastReadAt: at('09:01:00') }),
+      makeMember('c1', 'carol'),
+    ], ME);
+
+    assert.deepEqual(seenBy(receipts, 'm1'), []);
+    assert.equal(receipts.byMessage.m1.expectedCount, 1);
+  });
+
+  it('does not expect members who joined later or left, but still lists them once they read', () => {
+    const receipts = computeReadReceipts(messages, [
+      makeMember('c1', 'bob', { lastReadAt: at('09:03:00') }),
+      makeMember('c1', 'late', { joinedAt: at('09:02:30'), lastReadAt: at('09:03:00') }),
+      makeMember('c1', 'gone', { leftAt: at('09:05:00') }),
+    ], ME);
+
+    assert.deepEqual(seenBy(receipts, 'm1'), ['bob', 'late']);
+    assert.equal(receipts.byMessage.m1.expectedCount, 1);
+    assert.equal(receipts.byMessage.m1.seenByEveryone, true);
+    assert.equal(receipts.byMessage.m3.expectedCount, 2);
+  });
+
+  it('gives optimistic messages no entry and keeps them out of read positions', () => {
+    const pending = makeMessage('local:x', 'c1', { senderId: ME, sendState: 'pending', createdAt: at('09:04:00') });
+
+    const receipts = computeReadReceipts([...messages, pending], [
+      makeMember('c1', 'bob', { lastReadAt: at('09:10:00') }),
+    ], ME);
+
+    assert.equal(receipts.byMessage['local:x'], undefined);
+    assert.deepEqual(receipts.lastReadMessageIds, { bob: 'm3' });
+  });
+
+  it('is never seen by everyone when nobody else is expected to read it', () => {
+    const receipts = computeReadReceipts(messages, [makeMember('c1', ME)], ME);
+
+    assert.equal(receipts.byMessage.m1.expectedCount, 0);
+    assert.equal(receipts.byMessage.m1.seenByEveryone, false);
+  });
+});
@@ -0,0 +1,90 @@
+// Per-message read receipts, derived from each member's read position
+
+import { ConversationChannelMember, ConversationChannelMessage } from '@/types/messaging';
+import { toMillis } from '@/lib/time/timestamps';
+
+export type MessageReader = {
+  userId: string;
+  // When the member last moved their read position, which is at or past the message
+  readAt?: string;
+};
+
+export type MessageReadStatus = {
+  seenBy: MessageReader[];
+  // Members who were in the conversation when the message was sent and still are
+  expectedCount: number;
+  seenByEveryone: boolean;
+};
+
+export type ConversationReadReceipts = {
+  // Keyed by message ID; optimistic messages have no entry
+  byMessage: Record<string, MessageReadStatus>;
+  // The last loaded message each member has read, keyed by user ID
+  lastReadMessageIds: Record<string, string>;
+};
+
+/**
+ * Index of the last message a member has read in an oldest-first list
+ * The message ID from a read event is exact; otherwise the position is
+ * inferred from lastReadAt, and -1 means nothing loaded has been read
+ */
+export function findReadPosition(
+  messages: ConversationChannelMessage[],
+  member: Pick<ConversationChannelMember, 'lastReadAt' | 'lastReadMessageId'>
+): number {
+  if (member.lastReadMessageId) {
+    const index = messages.findIndex(message => message.id === member.lastReadMessageId);
+    if (index >= 0) return index;
+  }
+
+  const lastReadTime = toMillis(member.lastReadAt);
+  if (Number.isNaN(lastReadTime)) return -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (toMillis(messages[i].createdAt) <= lastReadTime) return i;
+  }
+  return -1;
+}
+
+// Members who should read a message: in the conversation when it was sent and not since left
+export function isExpectedReader(member: ConversationChannelMember, message: ConversationChannelMessage): boolean {
+  if (member.leftAt) return false;
+  return !member.joinedAt || toMillis(member.joinedAt) <= toMillis(message.createdAt);
+}
+
+/**
+ * Who has seen each message in an oldest-first list
+ * The sender and the viewer are left out of every count; members who read a
+ * message count towards seenBy even if they joined after it or have left
+ */
+export function computeReadReceipts(
+  messages: ConversationChannelMessage[],
+  members: ConversationChannelMember[],
+  viewerId?: string
+): ConversationReadReceipts {
+  const confirmed = messages.filter(message => !message.sendState);
+  const readers = members
+    .filter(member => member.userId !== viewerId)
+    .map(member => ({ member, position: findReadPosition(confirmed, member) }));
+
+  const lastReadMessageIds: Record<string, string> = {};
+  readers.forEach(({ member, position }) => {
+    if (position >= 0) lastReadMessageIds[member.userId] = confirmed[position].id;
+  });
+
+  const byMessage: Record<string, MessageReadStatus> = {};
+  confirmed.forEach((message, index) => {
+    const others = readers.filter(({ member }) => member.userId !== message.senderId);
+    const seenBy = others
+      .filter(({ position }) => position >= index)
+      .map(({ member }): MessageReader => ({ userId: member.userId, readAt: member.lastReadAt }));
+    const expected = others.filter(({ member }) => isExpectedReader(member, message));
+
+    byMessage[message.id] = {
+      seenBy,
+      expectedCount: expected.length,
+      seenByEveryone: expected.length > 0 && expected.every(({ position }) => position >= index),
+    };
+  });
+
+  return { byMessage, lastReadMessageIds };
+}
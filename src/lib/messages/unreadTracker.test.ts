@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { ConversationChannelMessage } from '@/types/messaging';
+import { at, makeConversation, makeMember, makeMessage } from '@/lib/testing/fixtures';
+import { UnreadTracker, getUnreadTotal } from './unreadTracker';
+
+const ME = 'me';
+
+const mentioning = (userId: string): Partial<ConversationChannelMessage> => ({
+  mentions: [{
+    id: `mention-${userId}`,
+    messageId: 'm',
+    mentionedUserId: userId,
+    mentionText: `@${userId}`,
+    createdAt: at('09:00:00'),
+    updatedAt: at('09:00:00'),
+  }],
+});
+
+describe('UnreadTracker', () => {
+  let tracker: UnreadTracker;
+
+  beforeEach(() => {
+    tracker = new UnreadTracker();
+    tracker.setUserId(ME);
+  });
+
+  describe('seedConversations', () => {
+    it('counts the included messages after the read position', () => {
+      tracker.seedConversations([makeConversation('c1', {
+        lastMessageAt: at('09:03:00'),
+        members: [makeMember('c1', ME, { lastReadAt: at('09:01:00') })],
+        messages: [
+          makeMessage('m1', 'c1', { createdAt: at('09:00:00') }),
+          makeMessage('m2', 'c1', { createdAt: at('09:02:00'), ...mentioning(ME) }),
+          makeMessage('m3', 'c1', { createdAt: at('09:03:00') }),
+          makeMessage('m4', 'c1', { createdAt: at('09:03:00'), senderId: ME }),
+        ],
+      })]);
+
+      assert.deepEqual(tracker.get('c1'), { unread: 2, mentions: 1, lastReadAt: at('09:01:00') });
+    });
+
+    it('counts one when only lastMessageAt shows something is unread', () => {
+      tracker.seedConversations([makeConversation('c1', {
+        lastMessageAt: at('09:03:00'),
+        members: [makeMember('c1', ME, { lastReadAt: at('09:01:00') })],
+      })]);
+
+      assert.equal(tracker.get('c1').unread, 1);
+    });
+
+    it('skips conversations without the user\'s member record', () => {
+      tracker.seedConversations([makeConversation('c1', { lastMessageAt: at('09:03:00'), members: [] })]);
+
+      assert.deepEqual(tracker.getCounts(), {});
+    });
+
+    it('does not move the read position back to an older one from the server', () => {
+      tracker.markRead('c1', at('09:05:00'));
+
+      tracker.seedConversations([makeConversation('c1', {
+        lastMessageAt: at('09:04:00'),
+        members: [makeMember('c1', ME, { lastReadAt: at('09:00:00') })],
+      })]);
+
+      assert.deepEqual(tracker.get('c1'), { unread: 0, mentions: 0, lastReadAt: at('09:05:00') });
+    });
+  });
+
+  describe('recordMessage', () => {
+    it('counts other users\' new messages once', () => {
+      const message = makeMessage('m1', 'c1');
+
+      tracker.recordMessage(message);
+      tracker.recordMessage(message);
+
+      assert.deepEqual(tracker.get('c1'), { unread: 1, mentions: 0 });
+    });
+
+    it('ignores the user\'s own, unconfirmed and removed messages', () => {
+      tracker.recordMessage(makeMessage('m1', 'c1', { senderId: ME }));
+      tracker.recordMessage(makeMessage('local:x', 'c1', { sendState: 'pending' }));
+      tracker.recordMessage(makeMessage('m2', 'c1', { deletedAt: at('09:01:00') }));
+
+      assert.equal(tracker.getTotal(), 0);
+    });
+
+    it('ignores messages in the conversation being viewed and those before the read position', () => {
+      tracker.setActiveConversation('c1');
+      tracker.markRead('c2', at('09:30:00'));
+
+      tracker.recordMessage(makeMessage('m1', 'c1'));
+      tracker.recordMessage(makeMessage('m2', 'c2', { createdAt: at('09:10:00') }));
+
+      assert.equal(tracker.getTotal(), 0);
+    });
+  });
+
+  describe('mentions', () => {
+    it('counts a mention that arrives before its message as one unread message', () => {
+      tracker.recordMention({ conversationId: 'c1', messageId: 'm1', mentionedUserId: ME });
+      tracker.recordMessage(makeMessage('m1', 'c1', mentioning(ME)));
+
+      assert.deepEqual(tracker.get('c1'), { unread: 1, mentions: 1 });
+    });
+
+    it('counts a mention that arrives after its message once', () => {
+      tracker.recordMessage(makeMessage('m1', 'c1', mentioning(ME)));
+      tracker.recordMention({ conversationId: 'c1', messageId: 'm1', mentionedUserId: ME });
+
+      assert.deepEqual(tracker.get('c1'), { unread: 1, mentions: 1 });
+    });
+
+    it('ignores mentions of other users', () => {
+      tracker.recordMention({ conversationId: 'c1', messageId: 'm1', mentionedUserId: 'bob' });
+
+      assert.deepEqual(tracker.getCounts(), {});
+    });
+  });
+
+  describe('markRead', () => {
+    it('clears the counts and notifies', () => {
+      const totals: number[] = [];
+      tracker.subscribe(counts => totals.push(getUnreadTotal(counts)));
+      tracker.recordMessage(makeMessage('m1', 'c1'));
+      tracker.recordMessage(makeMessage('m2', 'c2'));
+
+      tracker.markRead('c1', at('09:10:00'));
+
+      assert.deepEqual(totals, [1, 2, 1]);
+      assert.deepEqual(tracker.get('c1'), { unread: 0, mentions: 0, lastReadAt: at('09:10:00') });
+    });
+  });
+
+  describe('setUserId', () => {
+    it('starts over for another user', () => {
+      tracker.recordMessage(makeMessage('m1', 'c1'));
+
+      tracker.setUserId('someone-else');
+      tracker.recordMessage(makeMessage('m1', 'c1'));
+
+      assert.deepEqual(tracker.get('c1'), { unread: 1, mentions: 0 });
+    });
+  });
+});
@@ -0,0 +1,245 @@
+// Per-conversation unread and unread-mention counts for one user
+
+import {
+  ConversationChannel,
+  ConversationChannelMessage,
+  MessageMentionEventPayload,
+  MessageReadEventPayload,
+} from '@/types/messaging';
+import { WebSocketService } from '@/lib/websocket/websocketService';
+import { serverClock } from '@/lib/time/serverClock';
+import { toMillis } from '@/lib/time/timestamps';
+
+export type UnreadCount = {
+  unread: number;
+  mentions: number;
+  // The user's read position; messages after it count as unread
+  lastReadAt?: string;
+};
+
+export type UnreadCounts = Record<string, UnreadCount>;
+
+export type UnreadListener = (counts: UnreadCounts) => void;
+
+const NONE: UnreadCount = { unread: 0, mentions: 0 };
+
+// Counted message IDs remembered to ignore repeated deliveries
+const MAX_COUNTED_MESSAGES = 1000;
+
+function isAfter(timestamp: string | undefined, lastReadAt: string | undefined): boolean {
+  if (!timestamp) return false;
+  return !lastReadAt || toMillis(timestamp) > toMillis(lastReadAt);
+}
+
+function laterOf(a: string | undefined, b: string | undefined): string | undefined {
+  if (!a || !b) return a ?? b;
+  return toMillis(a) >= toMillis(b) ? a : b;
+}
+
+// Unread messages across all conversations, for a badge
+export function getUnreadTotal(counts: UnreadCounts): number {
+  return Object.values(counts).reduce((total, count) => total + count.unread, 0);
+}
+
+/**
+ * Tracks what one user hasn't read yet
+ * Counts are seeded from REST data, then kept current from socket events
+ * and from the user's own read marks
+ */
+export class UnreadTracker {
+  private counts: UnreadCounts = {};
+  private listeners: UnreadListener[] = [];
+  private counted = new Set<string>();
+  private mentioned = new Set<string>();
+  private userId: string | null = null;
+  private activeConversationId: string | null = null;
+
+  // Counts belong to one user; switching users starts over
+  setUserId(userId: string | null): void {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.reset();
+  }
+
+  // Messages arriving in the conversation being viewed are read on arrival
+  setActiveConversation(conversationId: string | null): void {
+    this.activeConversationId = conversationId;
+  }
+
+  get(conversationId: string): UnreadCount {
+    return this.counts[conversationId] ?? NONE;
+  }
+
+  getCounts(): UnreadCounts {
+    return this.counts;
+  }
+
+  getTotal(): number {
+    return getUnreadTotal(this.counts);
+  }
+
+  // Subscribe to count changes; returns an unsubscribe function
+  subscribe(listener: UnreadListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Seed from conversations as returned by the API; those without the user's
+  // member record carry no read position and are skipped
+  seedConversations(conversations: ConversationChannel[]): void {
+    let changed = false;
+    conversations.forEach(conversation => {
+      const member = conversation.members?.find(m => m.userId === this.userId);
+      if (!member) return;
+
+      const current = this.get(conversation.id);
+      const next = this.countSeeded(conversation, current, laterOf(current.lastReadAt, member.lastReadAt));
+      if (next.unread !== current.unread || next.mentions !== current.mentions || next.lastReadAt !== current.lastReadAt) {
+        this.counts = { ...this.counts, [conversation.id]: next };
+        changed = true;
+      }
+    });
+    if (changed) this.notify();
+  }
+
+  // Count a newly arrived message
+  recordMessage(message: ConversationChannelMessage): void {
+    if (!this.isCountable(message) || this.counted.has(message.id)) return;
+    this.remember(this.counted, message.id);
+
+    if (message.conversationId === this.activeConversationId) return;
+    const current = this.get(message.conversationId);
+    if (!isAfter(message.createdAt, current.lastReadAt)) return;
+
+    const isMention = this.mentionsUser(message) && !this.mentioned.has(message.id);
+    if (isMention) this.remember(this.mentioned, message.id);
+
+    this.counts = {
+      ...this.counts,
+      [message.conversationId]: {
+        ...current,
+        unread: current.unread + 1,
+        mentions: current.mentions + (isMention ? 1 : 0),
+      },
+    };
+    this.notify();
+  }
+
+  // Count a mention notification, which may arrive before or after its message
+  recordMention({ conversationId, messageId, mentionedUserId }: MessageMentionEventPayload): void {
+    if (mentionedUserId && mentionedUserId !== this.userId) return;
+    if (conversationId === this.activeConversationId) return;
+
+    // The message itself is counted here if its message:new hasn't arrived yet
+    const isNewMessage = !messageId || !this.counted.has(messageId);
+    if (messageId) {
+      if (this.mentioned.has(messageId)) return;
+      this.remember(this.mentioned, messageId);
+      this.remember(this.counted, messageId);
+    }
+
+    const current = this.get(conversationId);
+    this.counts = {
+      ...this.counts,
+      [conversationId]: {
+        ...current,
+        unread: current.unread + (isNewMessage ? 1 : 0),
+        mentions: current.mentions + 1,
+      },
+    };
+    this.notify();
+  }
+
+  // Clear a conversation's counts up to a read position, now by default
+  markRead(conversationId: string, timestamp: string = serverClock.nowISO()): void {
+    const current = this.get(conversationId);
+    const lastReadAt = laterOf(current.lastReadAt, timestamp);
+    if (current.unread === 0 && current.mentions === 0 && lastReadAt === current.lastReadAt) return;
+
+    this.counts = { ...this.counts, [conversationId]: { unread: 0, mentions: 0, lastReadAt } };
+    this.notify();
+  }
+
+  // Forget a conversation the user left
+  remove(conversationId: string): void {
+    if (!(conversationId in this.counts)) return;
+    this.counts = Object.fromEntries(Object.entries(this.counts).filter(([id]) => id !== conversationId));
+    this.notify();
+  }
+
+  reset(): void {
+    this.counted.clear();
+    this.mentioned.clear();
+    this.activeConversationId = null;
+    if (Object.keys(this.counts).length === 0) return;
+    this.counts = {};
+    this.notify();
+  }
+
+  /**
+   * Keep counts current from a WebSocketService's events
+   * Read events from the user's other sessions clear counts here too
+   * Returns a function that removes every handler it registered
+   */
+  bind(service: WebSocketService): () => void {
+    const onMessage = (message: ConversationChannelMessage) => this.recordMessage(message);
+    const onMention = (payload: MessageMentionEventPayload) => this.recordMention(payload);
+    const onRead = ({ conversationId, userId, timestamp }: MessageReadEventPayload) => {
+      if (userId === this.userId) this.markRead(conversationId, timestamp);
+    };
+
+    const scope = service.createScope();
+    scope.onMessageEvent('message:new', onMessage);
+    scope.onMessageEvent('message:mention', onMention);
+    scope.onMessageEvent('message:read', onRead);
+
+    return () => scope.dispose();
+  }
+
+  // Included messages give exact counts for what they cover; without them only
+  // "something is unread" is known, which counts as one
+  private countSeeded(conversation: ConversationChannel, current: UnreadCount, lastReadAt?: string): UnreadCount {
+    if (!isAfter(conversation.lastMessageAt, lastReadAt)) {
+      return { unread: 0, mentions: 0, lastReadAt };
+    }
+
+    // Live counts were taken against an older read position once the server's has moved on
+    const base = current.lastReadAt && current.lastReadAt !== lastReadAt ? NONE : current;
+    const unreadMessages = (conversation.messages ?? []).filter(message =>
+      this.isCountable(message) && isAfter(message.createdAt, lastReadAt)
+    );
+    unreadMessages.forEach(message => this.remember(this.counted, message.id));
+    const mentionIds = unreadMessages.filter(message => this.mentionsUser(message)).map(message => message.id);
+    mentionIds.forEach(id => this.remember(this.mentioned, id));
+
+    const floor = conversation.messages?.length ? 0 : 1;
+    return {
+      unread: Math.max(base.unread, unreadMessages.length, floor),
+      mentions: Math.max(base.mentions, mentionIds.length),
+      lastReadAt,
+    };
+  }
+
+  // Other users' messages that are still visible
+  private isCountable(message: ConversationChannelMessage): boolean {
+    return !!this.userId && message.senderId !== this.userId &&
+      !message.sendState && !message.deletedAt && !message.unsentAt;
+  }
+
+  private mentionsUser(message: ConversationChannelMessage): boolean {
+    return !!message.mentions?.some(mention => mention.mentionedUserId === this.userId);
+  }
+
+  private remember(ids: Set<string>, id: string): void {
+    ids.add(id);
+    if (ids.size > MAX_COUNTED_MESSAGES) {
+      ids.delete(ids.values().next().value as string);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.counts));
+  }
+}
@@ -0,0 +1,154 @@
+// The signed-in user's own presence: a chosen status, with away set automatically while idle
+
+import { UserStatusPayload } from '@/types/messaging';
+import { WebSocketService } from '@/lib/websocket/websocketService';
+
+export type OwnPresenceStatus = UserStatusPayload['status'];
+
+export type PresenceListener = (status: OwnPresenceStatus) => void;
+
+export type PresenceManagerOptions = {
+  // Time without input before a visible page counts as away (defaults to 5 minutes)
+  idleTimeoutMs?: number;
+  // Time hidden before the user counts as away (defaults to 1 minute)
+  hiddenTimeoutMs?: number;
+};
+
+// Input that counts as the user being at the page
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart', 'focus'] as const;
+
+/**
+ * Works out the status to report for the signed-in user
+ * With online chosen, the status drops to away once the page has had no
+ * input for idleTimeoutMs, or has been hidden for hiddenTimeoutMs, and
+ * returns to online on the next input; a chosen away or dnd is kept as is
+ */
+export class PresenceManager {
+  private preferredStatus: OwnPresenceStatus = 'online';
+  private status: OwnPresenceStatus = 'online';
+  private idle = false;
+  private lastActivityAt = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: PresenceListener[] = [];
+  private started = false;
+  private idleTimeoutMs: number;
+  private hiddenTimeoutMs: number;
+
+  constructor(options: PresenceManagerOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 5 * 60 * 1000;
+    this.hiddenTimeoutMs = options.hiddenTimeoutMs ?? 60 * 1000;
+  }
+
+  // The status reported to others
+  getStatus(): OwnPresenceStatus {
+    return this.status;
+  }
+
+  // The status the user chose, before idle detection
+  getPreferredStatus(): OwnPresenceStatus {
+    return this.preferredStatus;
+  }
+
+  isIdle(): boolean {
+    return this.idle;
+  }
+
+  setPreferredStatus(status: OwnPresenceStatus): void {
+    if (status === this.preferredStatus) return;
+    this.preferredStatus = status;
+    this.refresh(true);
+  }
+
+  // Subscribe to status changes; returns an unsubscribe function
+  subscribe(listener: PresenceListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Start watching input and page visibility; does nothing outside the browser
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.onVisibilityChange);
+    this.onActivity();
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.onActivity));
+    document.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.clearTimer();
+    this.idle = false;
+    this.refresh();
+  }
+
+  /**
+   * Report the status through a WebSocketService, now and on every change
+   * Returns a function that stops reporting
+   */
+  bind(service: WebSocketService): () => void {
+    service.updatePresence(this.status);
+    return this.subscribe(status => service.updatePresence(status));
+  }
+
+  // Arrow functions so the same references can be removed as listeners
+  private onActivity = (): void => {
+    this.lastActivityAt = Date.now();
+    if (this.idle) {
+      this.idle = false;
+      this.refresh();
+    }
+    if (!this.timer) this.schedule(this.currentTimeout());
+  };
+
+  // Hiding the page starts the shorter countdown from now; showing it counts as input
+  private onVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.onActivity();
+      return;
+    }
+    this.lastActivityAt = Date.now();
+    this.clearTimer();
+    this.schedule(this.currentTimeout());
+  };
+
+  // Input only moves lastActivityAt, so the timer re-arms for the remainder instead of on every event
+  private checkIdle = (): void => {
+    this.timer = null;
+    const remaining = this.lastActivityAt + this.currentTimeout() - Date.now();
+    if (remaining > 0) {
+      this.schedule(remaining);
+      return;
+    }
+    this.idle = true;
+    this.refresh();
+  };
+
+  private currentTimeout(): number {
+    return document.visibilityState === 'hidden' ? this.hiddenTimeoutMs : this.idleTimeoutMs;
+  }
+
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(this.checkIdle, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private refresh(force: boolean = false): void {
+    const next = this.preferredStatus === 'online' && this.idle ? 'away' : this.preferredStatus;
+    if (next === this.status && !force) return;
+    this.status = next;
+    this.listeners.forEach(listener => listener(next));
+  }
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { MessagingStore } from './messagingStore';
+import { selectConversations, selectMessages } from './selectors';
+import { at, makeConversation, makeMessage, makeUser } from '@/lib/testing/fixtures';
+
+const conversationOrder = (store: MessagingStore) => selectConversations(store.getState()).map(c => c.id);
+const messageIds = (store: MessagingStore, conversationId: string) =>
+  selectMessages(conversationId)(store.getState()).map(m => m.id);
+
+describe('MessagingStore', () => {
+  let store: MessagingStore;
+
+  beforeEach(() => {
+    store = new MessagingStore();
+  });
+
+  describe('upsertMessages', () => {
+    it('merges the same message from a page and a socket event into one entry', () => {
+      store.upsertMessages([makeMessage('m1', 'c1', { content: 'draft' })]);
+      store.upsertMessages([makeMessage('m1', 'c1', { content: 'final', sender: makeUser('alice') })]);
+
+      assert.deepEqual(messageIds(store, 'c1'), ['m1']);
+      assert.equal(store.getState().messages.m1.content, 'final');
+      assert.equal(store.getState().messages.m1.sender, undefined);
+      assert.equal(store.getState().users.alice.firstName, 'alice');
+    });
+
+    it('keeps each conversation oldest first', () => {
+      store.upsertMessages([
+        makeMessage('m2', 'c1', { createdAt: at('09:02:00') }),
+        makeMessage('m3', 'c1', { createdAt: at('09:03:00') }),
+      ]);
+      store.upsertMessages([makeMessage('m1', 'c1', { createdAt: at('09:01:00') })]);
+
+      assert.deepEqual(messageIds(store, 'c1'), ['m1', 'm2', 'm3']);
+    });
+
+    it('replaces an optimistic placeholder with the confirmed message', () => {
+      store.upsertMessages([makeMessage('m1', 'c1', { createdAt: at('09:00:00') })]);
+      store.upsertMessages([makeMessage('local:x', 'c1', {
+        clientMessageId: 'x',
+        sendState: 'pending',
+        createdAt: at('09:05:00'),
+      })]);
+
+      store.upsertMessages([makeMessage('m2', 'c1', { clientMessageId: 'x', createdAt: at('09:05:01') })]);
+
+      assert.deepEqual(messageIds(store, 'c1'), ['m1', 'm2']);
+      assert.equal(store.getState().messages['local:x'], undefined);
+    });
+
+    it('caches quoted messages without listing them', () => {
+      const quoted = makeMessage('m0', 'c1', { createdAt: at('08:00:00') });
+      store.upsertMessages([makeMessage('m1', 'c1', { replyToId: 'm0', replyTo: quoted })]);
+
+      assert.deepEqual(messageIds(store, 'c1'), ['m1']);
+      assert.equal(store.getState().messages.m0.id, 'm0');
+      assert.equal(store.getState().messages.m1.replyTo, undefined);
+    });
+  });
+
+  describe('lastMessageAt', () => {
+    beforeEach(() => {
+      store.upsertConversations([
+        makeConversation('quiet', { lastMessageAt: at('08:00:00') }),
+        makeConversation('busy', { lastMessageAt: at('09:00:00') }),
+      ]);
+    });
+
+    it('moves forward with a newer confirmed message and reorders conversations', () => {
+      assert.deepEqual(conversationOrder(store), ['busy', 'quiet']);
+
+      store.upsertMessages([makeMessage('m1', 'quiet', { createdAt: at('10:00:00') })]);
+
+      assert.equal(store.getState().conversations.quiet.lastMessageAt, at('10:00:00'));
+      assert.deepEqual(conversationOrder(store), ['quiet', 'busy']);
+    });
+
+    it('ignores older messages, such as a page of history', () => {
+      const before = store.getState().conversationIds;
+
+      store.upsertMessages([makeMessage('m1', 'quiet', { createdAt: at('07:00:00') })]);
+
+      assert.equal(store.getState().conversations.quiet.lastMessageAt, at('08:00:00'));
+      assert.equal(store.getState().conversationIds, before);
+    });
+
+    it('ignores placeholders the server has not confirmed', () => {
+      store.upsertMessages([makeMessage('local:x', 'quiet', {
+        clientMessageId: 'x',
+        sendState: 'pending',
+        createdAt: at('10:00:00'),
+      })]);
+
+      assert.equal(store.getState().conversations.quiet.lastMessageAt, at('08:00:00'));
+      assert.deepEqual(conversationOrder(store), ['busy', 'quiet']);
+    });
+  });
+
+  describe('upsertConversations', () => {
+    it('merges partial updates into known conversations and ignores unknown ones', () => {
+      store.upsertConversations([makeConversation('c1')]);
+
+      store.upsertConversations([{ id: 'c1', name: 'Renamed' }, { id: 'c2', name: 'Unknown' }]);
+
+      assert.equal(store.getState().conversations.c1.name, 'Renamed');
+      assert.equal(store.getState().conversations.c1.memberCount, 2);
+      assert.deepEqual(conversationOrder(store), ['c1']);
+    });
+  });
+
+  describe('removeConversation', () => {
+    it('drops the conversation with its messages and deliveries', () => {
+      store.upsertConversations([makeConversation('c1')]);
+      store.upsertMessages([makeMessage('m1', 'c1')]);
+      store.markDelivered('m1', 'bob', at('09:00:01'));
+
+      store.removeConversation('c1');
+
+      assert.deepEqual(conversationOrder(store), []);
+      assert.equal(store.getState().messages.m1, undefined);
+      assert.equal(store.getState().deliveriesByMessage.m1, undefined);
+    });
+  });
+
+  describe('notifications', () => {
+    it('notifies once per batch and not at all for writes that change nothing', () => {
+      let calls = 0;
+      store.subscribe(() => calls++);
+
+      store.batch(() => {
+        store.upsertConversations([makeConversation('c1')]);
+        store.upsertMessages([makeMessage('m1', 'c1')]);
+      });
+      store.removeMessage('missing');
+
+      assert.equal(calls, 1);
+    });
+
+    it('keeps unchanged slices identical so selectors can skip work', () => {
+      store.upsertMessages([makeMessage('m1', 'c1'), makeMessage('m2', 'c2')]);
+      const { messageIdsByConversation, users } = store.getState();
+
+      store.upsertMessages([makeMessage('m3', 'c1', { createdAt: at('09:30:00') })]);
+
+      assert.equal(store.getState().messageIdsByConversation.c2, messageIdsByConversation.c2);
+      assert.notEqual(store.getState().messageIdsByConversation.c1, messageIdsByConversation.c1);
+      assert.equal(store.getState().users, users);
+    });
+  });
+});
@@ -0,0 +1,424 @@
+// Normalized client-side cache written by both REST responses and socket events
+
+import {
+  ConversationChannel,
+  ConversationChannelMember,
+  ConversationChannelMessage,
+  ConversationChannelMessageReaction,
+  UserPresenceStatus,
+  UserProfile,
+} from '@/types/messaging';
+
+export type MessagingState = {
+  conversations: Record<string, ConversationChannel>;
+  // Conversation IDs, most recently active first
+  conversationIds: string[];
+  messages: Record<string, ConversationChannelMessage>;
+  // Message IDs per conversation, oldest first
+  messageIdsByConversation: Record<string, string[]>;
+  users: Record<string, UserProfile>;
+  // Reactions per message, keyed by reaction ID
+  reactionsByMessage: Record<string, Record<string, ConversationChannelMessageReaction>>;
+  // When each recipient's client received a message, keyed by message ID then user ID
+  deliveriesByMessage: Record<string, Record<string, string>>;
+  // Members per conversation, keyed by user ID
+  membersByConversation: Record<string, Record<string, ConversationChannelMember>>;
+  typingByConversation: Record<string, string[]>;
+  // Latest status reported for each user
+  presence: Record<string, UserPresenceStatus>;
+  // When each user was last active, as reported with their status
+  lastSeenAt: Record<string, string>;
+};
+
+export type MessagingStoreListener = () => void;
+
+const createInitialState = (): MessagingState => ({
+  conversations: {},
+  conversationIds: [],
+  messages: {},
+  messageIdsByConversation: {},
+  users: {},
+  reactionsByMessage: {},
+  deliveriesByMessage: {},
+  membersByConversation: {},
+  typingByConversation: {},
+  presence: {},
+  lastSeenAt: {},
+});
+
+function omit<T, K extends keyof T>(value: T, keys: K[]): Omit<T, K> {
+  const result = { ...value };
+  keys.forEach(key => delete result[key]);
+  return result;
+}
+
+function byActivity(state: MessagingState) {
+  return (a: string, b: string) => {
+    const at = state.conversations[a].lastMessageAt ?? state.conversations[a].createdAt;
+    const bt = state.conversations[b].lastMessageAt ?? state.conversations[b].createdAt;
+    return bt.localeCompare(at);
+  };
+}
+
+function byCreatedAt(state: MessagingState) {
+  return (a: string, b: string) =>
+    state.messages[a].createdAt.localeCompare(state.messages[b].createdAt) || a.localeCompare(b);
+}
+
+// Nested copies are stored once in their own tables
+function stripMessage(message: ConversationChannelMessage): ConversationChannelMessage {
+  return omit(message, ['conversation', 'sender', 'replyTo', 'reactions']);
+}
+
+function stripConversation(conversation: Partial<ConversationChannel>): Partial<ConversationChannel> {
+  return omit(conversation, ['members', 'messages', 'creator']);
+}
+
+function stripReaction(reaction: ConversationChannelMessageReaction): ConversationChannelMessageReaction {
+  return omit(reaction, ['user', 'message']);
+}
+
+function stripMember(member: ConversationChannelMember): ConversationChannelMember {
+  return omit(member, ['user', 'conversation', 'addedByUser']);
+}
+
+/**
+ * Entities keyed by ID, updated immutably so unchanged slices keep their identity
+ * Writes are idempotent: the same message from a REST page and a socket event
+ * merges into one entry, and listeners are notified once per write or batch
+ */
+export class MessagingStore {
+  private state: MessagingState = createInitialState();
+  private listeners: Set<MessagingStoreListener> = new Set();
+  private batchDepth = 0;
+  private changed = false;
+
+  getState(): MessagingState {
+    return this.state;
+  }
+
+  // Called after every change; returns an unsubscribe function
+  subscribe(listener: MessagingStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Called when the selected value changes
+  select<T>(
+    selector: (state: MessagingState) => T,
+    listener: (value: T, previous: T) => void,
+    isEqual: (a: T, b: T) => boolean = Object.is
+  ): () => void {
+    let current = selector(this.state);
+    return this.subscribe(() => {
+      const next = selector(this.state);
+      if (!isEqual(current, next)) {
+        const previous = current;
+        current = next;
+        listener(next, previous);
+      }
+    });
+  }
+
+  // Apply several writes with a single notification
+  batch(update: () => void): void {
+    this.batchDepth++;
+    try {
+      update();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.changed) {
+        this.changed = false;
+        this.notify();
+      }
+    }
+  }
+
+  upsertUsers(users: UserProfile[]): void {
+    if (users.length === 0) return;
+    this.update(state => {
+      const updated = { ...state.users };
+      users.forEach(user => {
+        updated[user.userId] = { ...updated[user.userId], ...user };
+      });
+      return { ...state, users: updated };
+    });
+  }
+
+  // Full or partial conversations; partial ones only merge into existing entries
+  upsertConversations(conversations: (Partial<ConversationChannel> & Pick<ConversationChannel, 'id'>)[]): void {
+    if (conversations.length === 0) return;
+    this.batch(() => {
+      conversations.forEach(conversation => {
+        if (conversation.creator) this.upsertUsers([conversation.creator]);
+        if (conversation.members) this.setMembers(conversation.id, conversation.members);
+      });
+
+      this.update(state => {
+        const updated = { ...state.conversations };
+        conversations.forEach(conversation => {
+          const existing = updated[conversation.id];
+          if (!existing && !conversation.createdAt) return;
+          updated[conversation.id] = { ...existing, ...stripConversation(conversation) } as ConversationChannel;
+        });
+        const next = { ...state, conversations: updated };
+        return { ...next, conversationIds: Object.keys(updated).sort(byActivity(next)) };
+      });
+    });
+  }
+
+  removeConversation(conversationId: string): void {
+    this.update(state => {
+      if (!state.conversations[conversationId]) return state;
+      const messageIds = state.messageIdsByConversation[conversationId] ?? [];
+      return {
+        ...state,
+        conversations: omit(state.conversations, [conversationId]),
+        conversationIds: state.conversationIds.filter(id => id !== conversationId),
+        messages: omit(state.messages, messageIds),
+        messageIdsByConversation: omit(state.messageIdsByConversation, [conversationId]),
+        reactionsByMessage: omit(state.reactionsByMessage, messageIds),
+        deliveriesByMessage: omit(state.deliveriesByMessage, messageIds),
+        membersByConversation: omit(state.membersByConversation, [conversationId]),
+        typingByConversation: omit(state.typingByConversation, [conversationId]),
+      };
+    });
+  }
+
+  // Merge messages by ID, keeping each conversation's list ordered
+  // Confirmed messages replace optimistic placeholders with the same client message ID
+  upsertMessages(messages: ConversationChannelMessage[]): void {
+    if (messages.length === 0) return;
+    this.batch(() => {
+      this.upsertUsers(messages.flatMap(message => message.sender ? [message.sender] : []));
+      messages.forEach(message => {
+        if (message.reactions) this.setReactions(message.id, message.reactions);
+      });
+
+      this.update(state => {
+        const updated = { ...state.messages };
+        const touched = new Set<string>();
+        const all = [
+          // Quoted messages are cached but stay out of the ordered lists, which may not reach them
+          ...messages.flatMap(message => message.replyTo ? [{ message: message.replyTo, listed: false }] : []),
+          ...messages.map(message => ({ message, listed: true })),
+        ];
+        all.forEach(({ message, listed }) => {
+          updated[message.id] = { ...updated[message.id], ...stripMessage(message) };
+          if (listed) touched.add(message.conversationId);
+        });
+
+        const confirmed = new Set(messages.flatMap(message =>
+          !message.sendState && message.clientMessageId ? [message.clientMessageId] : []
+        ));
+        const placeholders = confirmed.size === 0 ? [] : Object.values(updated)
+          .filter(message => message.sendState && message.clientMessageId && confirmed.has(message.clientMessageId))
+          .map(message => message.id);
+
+        const next = { ...state, messages: omit(updated, placeholders) };
+        const ids = { ...state.messageIdsByConversation };
+        touched.forEach(conversationId => {
+          const merged = new Set(ids[conversationId] ?? []);
+          messages.forEach(message => {
+            if (message.conversationId === conversationId) merged.add(message.id);
+          });
+          placeholders.forEach(id => merged.delete(id));
+          ids[conversationId] = Array.from(merged).sort(byCreatedAt(next));
+        });
+
+        // Newer confirmed messages move their conversation up the activity order
+        const conversations = { ...next.conversations };
+        let active = false;
+        messages.forEach(message => {
+          const conversation = conversations[message.conversationId];
+          if (!conversation || message.sendState) return;
+          if (!conversation.lastMessageAt || conversation.lastMessageAt < message.createdAt) {
+            conversations[message.conversationId] = { ...conversation, lastMessageAt: message.createdAt };
+            active = true;
+          }
+        });
+        if (!active) return { ...next, messageIdsByConversation: ids };
+
+        const reordered = { ...next, conversations, messageIdsByConversation: ids };
+        return { ...reordered, conversationIds: [...reordered.conversationIds].sort(byActivity(reordered)) };
+      });
+    });
+  }
+
+  updateMessage(messageId: string, changes: Partial<ConversationChannelMessage>): void {
+    this.update(state => {
+      const existing = state.messages[messageId];
+      if (!existing) return state;
+      return { ...state, messages: { ...state.messages, [messageId]: stripMessage({ ...existing, ...changes }) } };
+    });
+  }
+
+  // Drop a message entirely, e.g. a discarded optimistic send
+  removeMessage(messageId: string): void {
+    this.update(state => {
+      const message = state.messages[messageId];
+      if (!message) return state;
+      const ids = state.messageIdsByConversation[message.conversationId] ?? [];
+      return {
+        ...state,
+        messages: omit(state.messages, [messageId]),
+        messageIdsByConversation: {
+          ...state.messageIdsByConversation,
+          [message.conversationId]: ids.filter(id => id !== messageId),
+        },
+        reactionsByMessage: omit(state.reactionsByMessage, [messageId]),
+        deliveriesByMessage: omit(state.deliveriesByMessage, [messageId]),
+      };
+    });
+  }
+
+  // Replace a message's reactions with a fresh list from the server
+  setReactions(messageId: string, reactions: ConversationChannelMessageReaction[]): void {
+    this.batch(() => {
+      this.upsertUsers(reactions.flatMap(reaction => reaction.user ? [reaction.user] : []));
+      this.update(state => ({
+        ...state,
+        reactionsByMessage: {
+          ...state.reactionsByMessage,
+          [messageId]: Object.fromEntries(reactions.map(reaction => [reaction.id, stripReaction(reaction)])),
+        },
+      }));
+    });
+  }
+
+  addReaction(reaction: ConversationChannelMessageReaction): void {
+    this.batch(() => {
+      if (reaction.user) this.upsertUsers([reaction.user]);
+      this.update(state => ({
+        ...state,
+        reactionsByMessage: {
+          ...state.reactionsByMessage,
+          [reaction.messageId]: { ...state.reactionsByMessage[reaction.messageId], [reaction.id]: stripReaction(reaction) },
+        },
+      }));
+    });
+  }
+
+  removeReaction(messageId: string, userId: string, emoji: string): void {
+    this.update(state => {
+      const reactions = state.reactionsByMessage[messageId];
+      if (!reactions) return state;
+      const removed = Object.values(reactions)
+        .filter(reaction => reaction.userId === userId && reaction.emoji === emoji)
+        .map(reaction => reaction.id);
+      if (removed.length === 0) return state;
+      return { ...state, reactionsByMessage: { ...state.reactionsByMessage, [messageId]: omit(reactions, removed) } };
+    });
+  }
+
+  // Replace a conversation's members with a fresh list from the server
+  setMembers(conversationId: string, members: ConversationChannelMember[]): void {
+    this.batch(() => {
+      this.upsertUsers(members.flatMap(member => member.user ? [member.user] : []));
+      this.update(state => ({
+        ...state,
+        membersByConversation: {
+          ...state.membersByConversation,
+          [conversationId]: Object.fromEntries(members.map(member => [member.userId, stripMember(member)])),
+        },
+      }));
+    });
+  }
+
+  updateMember(conversationId: string, userId: string, changes: Partial<ConversationChannelMember>): void {
+    this.update(state => {
+      const members = state.membersByConversation[conversationId];
+      const existing = members?.[userId];
+      if (!existing) return state;
+      return {
+        ...state,
+        membersByConversation: {
+          ...state.membersByConversation,
+          [conversationId]: { ...members, [userId]: { ...existing, ...changes } },
+        },
+      };
+    });
+  }
+
+  removeMember(conversationId: string, userId: string): void {
+    this.update(state => {
+      const members = state.membersByConversation[conversationId];
+      if (!members?.[userId]) return state;
+      return {
+        ...state,
+        membersByConversation: { ...state.membersByConversation, [conversationId]: omit(members, [userId]) },
+      };
+    });
+  }
+
+  // Move a member's read position forward; older timestamps are ignored
+  // The message read up to is kept when the event names it
+  markRead(conversationId: string, userId: string, timestamp: string, messageId?: string): void {
+    const lastReadAt = this.state.membersByConversation[conversationId]?.[userId]?.lastReadAt;
+    if (lastReadAt && lastReadAt >= timestamp) return;
+    this.updateMember(conversationId, userId, { lastReadAt: timestamp, lastReadMessageId: messageId });
+  }
+
+  // Record that a message reached a recipient; the first delivery is kept
+  markDelivered(messageId: string, userId: string, timestamp: string): void {
+    this.update(state => {
+      const deliveries = state.deliveriesByMessage[messageId];
+      if (deliveries?.[userId]) return state;
+      return {
+        ...state,
+        deliveriesByMessage: {
+          ...state.deliveriesByMessage,
+          [messageId]: { ...deliveries, [userId]: timestamp },
+        },
+      };
+    });
+  }
+
+  setTypingUsers(conversationId: string, userIds: string[]): void {
+    this.update(state => ({
+      ...state,
+      typingByConversation: { ...state.typingByConversation, [conversationId]: userIds },
+    }));
+  }
+
+  setPresence(userId: string, status: UserPresenceStatus, lastSeenAt?: string): void {
+    this.update(state => {
+      const seenChanged = !!lastSeenAt && state.lastSeenAt[userId] !== lastSeenAt;
+      if (state.presence[userId] === status && !seenChanged) return state;
+      return {
+        ...state,
+        presence: { ...state.presence, [userId]: status },
+        lastSeenAt: seenChanged ? { ...state.lastSeenAt, [userId]: lastSeenAt } : state.lastSeenAt,
+      };
+    });
+  }
+
+  // Drop everything, e.g. when the signed-in user changes
+  reset(): void {
+    this.update(() => createInitialState());
+  }
+
+  private update(updater: (state: MessagingState) => MessagingState): void {
+    const next = updater(this.state);
+    if (next === this.state) return;
+
+    this.state = next;
+    if (this.batchDepth > 0) {
+      this.changed = true;
+    } else {
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('MessagingStore: Listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,71 @@
+// Selectors for MessagingStore state
+// Those returning new arrays should be paired with shallowEqual when subscribing
+
+import {
+  ConversationChannel,
+  ConversationChannelMember,
+  ConversationChannelMessage,
+  ConversationChannelMessageReaction,
+  UserPresenceStatus,
+  UserProfile,
+} from '@/types/messaging';
+import { MessagingState } from './messagingStore';
+
+const EMPTY: never[] = [];
+
+// Element-wise identity comparison for selector results
+export function shallowEqual<T>(a: readonly T[], b: readonly T[]): boolean {
+  return a === b || (a.length === b.length && a.every((item, index) => Object.is(item, b[index])));
+}
+
+export const selectConversation = (conversationId: string) =>
+  (state: MessagingState): ConversationChannel | undefined => state.conversations[conversationId];
+
+// Most recently active first
+export const selectConversations = (state: MessagingState): ConversationChannel[] =>
+  state.conversationIds.map(id => state.conversations[id]);
+
+export const selectUser = (userId: string) =>
+  (state: MessagingState): UserProfile | undefined => state.users[userId];
+
+// Oldest first; senders and quoted messages are looked up through users and selectMessage
+export const selectMessages = (conversationId: string) =>
+  (state: MessagingState): ConversationChannelMessage[] =>
+    (state.messageIdsByConversation[conversationId] ?? EMPTY).map(id => state.messages[id]);
+
+export const selectMessage = (messageId: string) =>
+  (state: MessagingState): ConversationChannelMessage | undefined => state.messages[messageId];
+
+export const selectReactions = (messageId: string) =>
+  (state: MessagingState): ConversationChannelMessageReaction[] => {
+    const reactions = state.reactionsByMessage[messageId];
+    return reactions ? Object.values(reactions) : EMPTY;
+  };
+
+export const selectMembers = (conversationId: string) =>
+  (state: MessagingState): ConversationChannelMember[] => {
+    const members = state.membersByConversation[conversationId];
+    return members ? Object.values(members) : EMPTY;
+  };
+
+export const selectTypingUsers = (conversationId: string) =>
+  (state: MessagingState): string[] => state.typingByConversation[conversationId] ?? EMPTY;
+
+// Last read position of each member, keyed by user ID
+export const selectReadReceipts = (conversationId: string) =>
+  (state: MessagingState): Record<string, string> => {
+    const members = state.membersByConversation[conversationId] ?? {};
+    return Object.fromEntries(
+      Object.values(members).flatMap(member => member.lastReadAt ? [[member.userId, member.lastReadAt]] : [])
+    );
+  };
+
+// Falls back to the status on the user's profile, then offline
+export const selectPresence = (userId: string) =>
+  (state: MessagingState): UserPresenceStatus =>
+    state.presence[userId] ?? state.users[userId]?.status ?? 'offline';
+
+// Undefined if the user hasn't been seen since the store was filled
+export const selectLastSeenAt = (userId: string) =>
+  (state: MessagingState): string | undefined =>
+    state.lastSeenAt[userId] ?? state.users[userId]?.lastSeenAt;
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { WebSocketService } from '@/lib/websocket/websocketService';
+import { at, makeConversation, makeMember, makeMessage } from '@/lib/testing/fixtures';
+import { MessagingStore } from './messagingStore';
+import { bindWebSocketService } from './websocketBindings';
+import { selectConversations, selectMessages } from './selectors';
+
+type Handler = (...args: never[]) => void;
+
+// Stands in for a connected service: records what the bindings register and replays events to it
+class FakeService {
+  handlers = new Map<string, Set<Handler>>();
+
+  createScope() {
+    const registered: [string, Handler][] = [];
+    const on = (event: string, handler: Handler) => {
+      registered.push([event, handler]);
+      if (!this.handlers.has(event)) this.handlers.set(event, new Set());
+      this.handlers.get(event)!.add(handler);
+    };
+    return {
+      onMessageEvent: on,
+      onConversationEvent: on,
+      onTypingUpdate: (_conversationId: string, handler: Handler) => on('typing', handler),
+      onUserStatus: (handler: Handler) => on('user:status', handler),
+      dispose: () => registered.forEach(([event, handler]) => this.handlers.get(event)?.delete(handler)),
+    };
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    this.handlers.get(event)?.forEach(handler => (handler as (...args: unknown[]) => void)(...args));
+  }
+}
+
+describe('bindWebSocketService', () => {
+  let store: MessagingStore;
+  let service: FakeService;
+  let unbind: () => void;
+
+  beforeEach(() => {
+    store = new MessagingStore();
+    service = new FakeService();
+    unbind = bindWebSocketService(store, service as unknown as WebSocketService);
+    store.upsertConversations([
+      makeConversation('c1', { lastMessageAt: at('08:00:00') }),
+      makeConversation('c2', { lastMessageAt: at('09:00:00') }),
+    ]);
+  });
+
+  it('adds new messages and moves their conversation to the top', () => {
+    service.emit('message:new', makeMessage('m1', 'c1', { createdAt: at('10:00:00') }));
+
+    assert.deepEqual(selectMessages('c1')(store.getState()).map(m => m.id), ['m1']);
+    assert.deepEqual(selectConversations(store.getState()).map(c => c.id), ['c1', 'c2']);
+  });
+
+  it('replaces the placeholder when the server echoes the send', () => {
+    store.upsertMessages([makeMessage('local:x', 'c1', { clientMessageId: 'x', sendState: 'pending' })]);
+
+    service.emit('message:sent', makeMessage('m1', 'c1', { clientMessageId: 'x' }));
+
+    assert.deepEqual(selectMessages('c1')(store.getState()).map(m => m.id), ['m1']);
+  });
+
+  it('keeps deleted messages as tombstones', () => {
+    store.upsertMessages([makeMessage('m1', 'c1')]);
+
+    service.emit('message:deleted', { conversationId: 'c1', messageId: 'm1' });
+
+    assert.ok(store.getState().messages.m1.deletedAt);
+  });
+
+  it('applies read and delivery receipts', () => {
+    store.setMembers('c1', [makeMember('c1', 'bob')]);
+    store.upsertMessages([makeMessage('m1', 'c1')]);
+
+    service.emit('message:read', { conversationId: 'c1', userId: 'bob', timestamp: at('09:10:00'), messageId: 'm1' });
+    service.emit('message:delivered', { conversationId: 'c1', messageId: 'm1', userId: 'bob', timestamp: at('09:05:00') });
+
+    assert.equal(store.getState().membersByConversation.c1.bob.lastReadAt, at('09:10:00'));
+    assert.equal(store.getState().membersByConversation.c1.bob.lastReadMessageId, 'm1');
+    assert.equal(store.getState().deliveriesByMessage.m1.bob, at('09:05:00'));
+  });
+
+  it('merges conversation updates and drops members who leave', () => {
+    store.setMembers('c1', [makeMember('c1', 'alice'), makeMember('c1', 'bob')]);
+
+    service.emit('conversation:updated', { conversation: { id: 'c1', name: 'Renamed' }, updatedBy: 'alice' });
+    service.emit('conversation:left', { conversationId: 'c1', userId: 'bob' });
+
+    assert.equal(store.getState().conversations.c1.name, 'Renamed');
+    assert.deepEqual(Object.keys(store.getState().membersByConversation.c1), ['alice']);
+  });
+
+  it('stops applying events once unbound', () => {
+    unbind();
+
+    service.emit('message:new', makeMessage('m1', 'c1'));
+    service.emit('user:status', 'bob', 'online');
+
+    assert.deepEqual(selectMessages('c1')(store.getState()), []);
+    assert.deepEqual(store.getState().presence, {});
+  });
+});
@@ -0,0 +1,75 @@
+// Applies socket events to a MessagingStore
+
+import {
+  ConversationChannel,
+  ConversationChannelMessage,
+  ConversationMembershipEventPayload,
+  ConversationUpdatedEventPayload,
+  MessageDeliveredEventPayload,
+  MessageReactionEventPayload,
+  MessageReadEventPayload,
+  MessageRemovedEventPayload,
+  UserPresenceStatus,
+} from '@/types/messaging';
+import { WebSocketService } from '@/lib/websocket/websocketService';
+import { serverClock } from '@/lib/time/serverClock';
+import { MessagingStore } from './messagingStore';
+
+/**
+ * Keep a store in sync with a WebSocketService's events
+ * Returns a function that removes every handler it registered
+ */
+export function bindWebSocketService(store: MessagingStore, service: WebSocketService): () => void {
+  const upsertMessage = (message: ConversationChannelMessage) => store.upsertMessages([message]);
+
+  // Removed messages stay in place as tombstones, matching what the API returns
+  const onDeleted = ({ messageId }: MessageRemovedEventPayload) =>
+    store.updateMessage(messageId, { deletedAt: serverClock.nowISO() });
+  const onUnsent = ({ messageId }: MessageRemovedEventPayload) =>
+    store.updateMessage(messageId, { unsentAt: serverClock.nowISO() });
+
+  const onRead = ({ conversationId, userId, timestamp, messageId }: MessageReadEventPayload) =>
+    store.markRead(conversationId, userId, timestamp ?? serverClock.nowISO(), messageId);
+
+  const onDelivered = ({ messageId, userId, timestamp }: MessageDeliveredEventPayload) =>
+    store.markDelivered(messageId, userId, timestamp ?? serverClock.nowISO());
+
+  const onReactionAdded = ({ reaction }: MessageReactionEventPayload) => {
+    if (reaction) store.addReaction(reaction);
+  };
+  const onReactionRemoved = ({ messageId, userId, emoji }: MessageReactionEventPayload) => {
+    if (userId && emoji) store.removeReaction(messageId, userId, emoji);
+  };
+
+  const onConversationNew = (conversation: ConversationChannel) => store.upsertConversations([conversation]);
+  const onConversationUpdated = ({ conversation }: ConversationUpdatedEventPayload) =>
+    store.upsertConversations([conversation]);
+  // Added members arrive without their member record; it is filled in by the next REST fetch
+  const onMemberRemoved = ({ conversationId, userId }: ConversationMembershipEventPayload) =>
+    store.removeMember(conversationId, userId);
+
+  const onTyping = (conversationId: string, typingUsers: string[]) =>
+    store.setTypingUsers(conversationId, typingUsers);
+  // A status change without lastSeenAt means the user was active until now
+  const onUserStatus = (userId: string, status: UserPresenceStatus, lastSeenAt?: string) =>
+    store.setPresence(userId, status, lastSeenAt ?? serverClock.nowISO());
+
+  const scope = service.createScope();
+  scope.onMessageEvent('message:new', upsertMessage);
+  scope.onMessageEvent('message:sent', upsertMessage);
+  scope.onMessageEvent('message:updated', upsertMessage);
+  scope.onMessageEvent('message:deleted', onDeleted);
+  scope.onMessageEvent('message:unsent', onUnsent);
+  scope.onMessageEvent('message:read', onRead);
+  scope.onMessageEvent('message:delivered', onDelivered);
+  scope.onMessageEvent('message:reaction:added', onReactionAdded);
+  scope.onMessageEvent('message:reaction:removed', onReactionRemoved);
+  scope.onConversationEvent('conversation:new', onConversationNew);
+  scope.onConversationEvent('conversation:updated', onConversationUpdated);
+  scope.onConversationEvent('conversation:member:removed', onMemberRemoved);
+  scope.onConversationEvent('conversation:left', onMemberRemoved);
+  scope.onTypingUpdate('all', onTyping);
+  scope.onUserStatus(onUserStatus);
+
+  return () => scope.dispose();
+}
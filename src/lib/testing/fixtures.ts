@@ -0,0 +1,79 @@
+// Entity builders for tests; each fills in the required fields and takes overrides
+
+import {
+  ChatRoleType,
+  ConversationChannel,
+  ConversationChannelMember,
+  ConversationChannelMessage,
+  ConversationType,
+  MessageType,
+  UserProfile,
+} from '@/types/messaging';
+
+// A fixed day, so tests can spell out timestamps by time of day
+export const at = (time: string) => `2024-05-01T${time}.000Z`;
+
+export function makeUser(userId: string, overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    userId,
+    firstName: userId,
+    lastName: 'Test',
+    handle: userId,
+    email: `${userId}@example.com`,
+    emailVerified: true,
+    phoneNumberVerified: false,
+    isOrganizationAccount: false,
+    isClaimed: true,
+    isAdmin: false,
+    createdAt: at('00:00:00'),
+    updatedAt: at('00:00:00'),
+    ...overrides,
+  };
+}
+
+export function makeConversation(id: string, overrides: Partial<ConversationChannel> = {}): ConversationChannel {
+  return {
+    id,
+    type: ConversationType.GROUP,
+    name: id,
+    memberCount: 2,
+    createdAt: at('00:00:00'),
+    updatedAt: at('00:00:00'),
+    ...overrides,
+  };
+}
+
+export function makeMember(
+  conversationId: string,
+  userId: string,
+  overrides: Partial<ConversationChannelMember> = {}
+): ConversationChannelMember {
+  return {
+    id: `${conversationId}:${userId}`,
+    conversationId,
+    userId,
+    joinedAt: at('00:00:00'),
+    createdAt: at('00:00:00'),
+    updatedAt: at('00:00:00'),
+    ...overrides,
+  };
+}
+
+export function makeMessage(
+  id: string,
+  conversationId: string,
+  overrides: Partial<ConversationChannelMessage> = {}
+): ConversationChannelMessage {
+  const createdAt = overrides.createdAt ?? at('09:00:00');
+  return {
+    id,
+    conversationId,
+    senderId: 'alice',
+    role: ChatRoleType.USER,
+    content: id,
+    messageType: MessageType.TEXT,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
@@ -0,0 +1,51 @@
+// Display formatting for timestamps, in the viewer's locale and timezone
+
+import { serverClock } from './serverClock';
+import { toMillis } from './timestamps';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Locale is resolved from the browser when undefined
+type FormatOptions = {
+  locale?: string;
+  timeZone?: string;
+};
+
+// "3:04 PM"
+export function formatTime(timestamp: string | undefined, { locale, timeZone }: FormatOptions = {}): string {
+  const time = toMillis(timestamp);
+  if (Number.isNaN(time)) return '';
+  return new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', timeZone }).format(time);
+}
+
+// "Mar 1, 2024, 3:04 PM"
+export function formatDateTime(timestamp: string | undefined, { locale, timeZone }: FormatOptions = {}): string {
+  const time = toMillis(timestamp);
+  if (Number.isNaN(time)) return '';
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short', timeZone }).format(time);
+}
+
+/**
+ * "just now", "2 min. ago", "yesterday", falling back to the date after a week
+ * now is in server time, so a skewed device clock doesn't shift the result
+ */
+export function formatRelativeTime(
+  timestamp: string | undefined,
+  now: number = serverClock.now(),
+  { locale, timeZone }: FormatOptions = {}
+): string {
+  const time = toMillis(timestamp);
+  if (Number.isNaN(time)) return '';
+
+  // Timestamps slightly ahead of the estimated server time are treated as now
+  const elapsed = Math.max(0, now - time);
+  if (elapsed < MINUTE) return 'just now';
+
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  if (elapsed < HOUR) return relative.format(-Math.floor(elapsed / MINUTE), 'minute');
+  if (elapsed < DAY) return relative.format(-Math.floor(elapsed / HOUR), 'hour');
+  if (elapsed < 7 * DAY) return relative.format(-Math.floor(elapsed / DAY), 'day');
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone }).format(time);
+}
@@ -0,0 +1,88 @@
+// Estimates how far the server's clock is from this device's
+
+import { ApiMiddleware } from '@/lib/api/middleware';
+import { toMillis } from './timestamps';
+
+// Recent samples kept; the one with the shortest round trip is the most precise
+const MAX_SAMPLES = 8;
+
+// Smaller differences are within sampling error and ignored
+const DEFAULT_MIN_SKEW_MS = 1000;
+
+type ClockSample = {
+  offsetMs: number;
+  roundTripMs: number;
+};
+
+/**
+ * Server time as seen from this device
+ * Each sample pairs a server timestamp with the local times a request was
+ * sent and answered; the server time is assumed to fall halfway between
+ * Timestamps created locally should come from now() so they sort correctly
+ * against the server's
+ */
+export class ServerClock {
+  private samples: ClockSample[] = [];
+  private offsetMs = 0;
+
+  constructor(private minSkewMs: number = DEFAULT_MIN_SKEW_MS) {}
+
+  // Record a server timestamp received in answer to a request sent at sentAt
+  observe(serverTime: string | number, sentAt: number, receivedAt: number = Date.now()): void {
+    const serverMs = typeof serverTime === 'number' ? serverTime : toMillis(serverTime);
+    if (Number.isNaN(serverMs) || receivedAt < sentAt) return;
+
+    const roundTripMs = receivedAt - sentAt;
+    this.samples = [...this.samples, { offsetMs: serverMs - (sentAt + roundTripMs / 2), roundTripMs }]
+      .slice(-MAX_SAMPLES);
+
+    const best = this.samples.reduce((a, b) => b.roundTripMs < a.roundTripMs ? b : a);
+    this.offsetMs = Math.abs(best.offsetMs) >= this.minSkewMs ? Math.round(best.offsetMs) : 0;
+  }
+
+  // Server clock minus local clock, in milliseconds
+  getOffset(): number {
+    return this.offsetMs;
+  }
+
+  // Current server time in milliseconds
+  now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  // Current server time as an ISO instant
+  nowISO(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.offsetMs = 0;
+  }
+}
+
+// Shared by the API client, the socket service and timestamps created in the UI
+export const serverClock = new ServerClock();
+
+/**
+ * Sample the clock from each response's Date header
+ * Cross-origin responses only expose Date if the server lists it in
+ * Access-Control-Expose-Headers; otherwise this does nothing
+ * The header has one-second resolution, so it refines coarse skew only
+ */
+export function createClockSkewMiddleware(clock: ServerClock = serverClock): ApiMiddleware {
+  return {
+    name: 'clock-skew',
+    onRequest: (context) => {
+      context.meta.clockSentAt = Date.now();
+    },
+    onResponse: (response, context) => {
+      const date = response.headers.get('date');
+      const sentAt = context.meta.clockSentAt;
+      if (date && typeof sentAt === 'number') {
+        // Truncated to the second, so on average half a second behind
+        clock.observe(Date.parse(date) + 500, sentAt);
+      }
+    },
+  };
+}
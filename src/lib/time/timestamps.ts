@@ -0,0 +1,79 @@
+// Timestamp normalization for entities received from the API
+// Every date string leaving this module is a UTC ISO 8601 instant, so values
+// from different endpoints compare and format the same way
+
+import {
+  ConversationChannel,
+  ConversationChannelMember,
+  ConversationChannelMessage,
+  ConversationChannelMessageEditHistory,
+  ConversationChannelMessageReaction,
+} from '@/types/messaging';
+
+// Date-times without a UTC offset, e.g. "2024-03-01 12:00:00" or "2024-03-01T12:00:00.123"
+const ZONELESS_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Convert a server date string to a UTC ISO instant
+ * The server stores UTC but some fields are serialized without an offset,
+ * which Date would otherwise read as the viewer's local time
+ * Unparseable values are returned unchanged
+ */
+export function normalizeTimestamp(value: string): string {
+  const trimmed = value.trim();
+  const withZone = ZONELESS_DATE_TIME.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed;
+  const time = Date.parse(withZone);
+  return Number.isNaN(time) ? value : new Date(time).toISOString();
+}
+
+// Milliseconds since the epoch, or NaN for a missing or invalid timestamp
+export function toMillis(timestamp: string | undefined): number {
+  return timestamp ? Date.parse(timestamp) : NaN;
+}
+
+// Normalize the named date fields that are present, leaving the rest as they are
+function normalizeFields<T extends object>(entity: T, fields: readonly (keyof T)[]): T {
+  const result = { ...entity };
+  fields.forEach(field => {
+    const value = result[field];
+    if (typeof value === 'string') {
+      result[field] = normalizeTimestamp(value) as T[keyof T];
+    }
+  });
+  return result;
+}
+
+export function normalizeMember(member: ConversationChannelMember): ConversationChannelMember {
+  return normalizeFields(member, ['joinedAt', 'leftAt', 'lastReadAt', 'createdAt', 'updatedAt']);
+}
+
+export function normalizeReaction(reaction: ConversationChannelMessageReaction): ConversationChannelMessageReaction {
+  return normalizeFields(reaction, ['createdAt', 'updatedAt']);
+}
+
+export function normalizeEditHistory(entry: ConversationChannelMessageEditHistory): ConversationChannelMessageEditHistory {
+  return normalizeFields(entry, ['createdAt', 'updatedAt']);
+}
+
+// Also normalizes the quoted message, attachments, reactions and mentions it carries
+export function normalizeMessage(message: ConversationChannelMessage): ConversationChannelMessage {
+  const result = normalizeFields(message, ['editedAt', 'unsentAt', 'deletedAt', 'createdAt', 'updatedAt']);
+  if (result.replyTo) result.replyTo = normalizeMessage(result.replyTo);
+  if (Array.isArray(result.attachments)) {
+    result.attachments = result.attachments.map(attachment => normalizeFields(attachment, ['createdAt', 'updatedAt']));
+  }
+  if (Array.isArray(result.reactions)) result.reactions = result.reactions.map(normalizeReaction);
+  if (Array.isArray(result.mentions)) {
+    result.mentions = result.mentions.map(mention => normalizeFields(mention, ['createdAt', 'updatedAt']));
+  }
+  if (Array.isArray(result.editHistory)) result.editHistory = result.editHistory.map(normalizeEditHistory);
+  return result;
+}
+
+// Accepts partial conversations, as sent with conversation:updated
+export function normalizeConversation<T extends Partial<ConversationChannel>>(conversation: T): T {
+  const result = normalizeFields(conversation, ['lastMessageAt', 'createdAt', 'updatedAt']);
+  if (Array.isArray(result.members)) result.members = result.members.map(normalizeMember);
+  if (Array.isArray(result.messages)) result.messages = result.messages.map(normalizeMessage);
+  return result;
+}
@@ -0,0 +1,18 @@
+// Why a socket message send did not produce a persisted message
+export type MessageSendErrorCode = 'timeout' | 'rejected' | 'invalid-ack';
+
+/**
+ * Error rejected from WebSocketService.sendMessage
+ */
+export class MessageSendError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MessageSendErrorCode,
+    public readonly clientMessageId: string,
+    public readonly conversationId: string,
+    public readonly serverCode?: string
+  ) {
+    super(message);
+    this.name = 'MessageSendError';
+  }
+}
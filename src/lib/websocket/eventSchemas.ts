@@ -0,0 +1,396 @@
+import {
+  ChatRoleType,
+  ConversationChannel,
+  ConversationChannelMessage,
+  ConversationChannelMessageReaction,
+  ConversationType,
+  MessageType,
+  ServerToClientEventName,
+  ServerToClientEventPayloads,
+  USER_PRESENCE_STATUSES,
+} from '@/types/messaging';
+import {
+  normalizeConversation,
+  normalizeMessage,
+  normalizeReaction,
+  normalizeTimestamp,
+} from '@/lib/time/timestamps';
+
+// What to do with an inbound payload that fails validation
+// - drop: record a validation:error and do not dispatch it
+// - warn: record a validation:error and dispatch the payload anyway
+// - pass-through: dispatch every payload without recording validation errors
+// Every policy unwraps payloads to the declared shape where it can
+export type ValidationPolicy = 'drop' | 'warn' | 'pass-through';
+
+// A failed result still carries the payload in the declared shape when it could be unwrapped
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: string[]; value?: T };
+
+type Validator<T> = (payload: unknown) => ValidationResult<T>;
+
+type FieldType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  | { oneOf: readonly string[] };
+
+type FieldRule = FieldType | { type: FieldType; optional: true };
+
+// Field rules keyed by the properties of the entity they describe
+type Schema<T> = { [K in keyof T]?: FieldRule };
+
+const optional = (type: FieldType): FieldRule => ({ type, optional: true });
+const isOptionalRule = (rule: FieldRule): rule is { type: FieldType; optional: true } =>
+  typeof rule === 'object' && 'optional' in rule;
+const oneOf = (values: Record<string, string> | readonly string[]): FieldType => ({
+  oneOf: Array.isArray(values) ? values : Object.values(values),
+});
+
+// Schemas mirroring the entity interfaces in messaging.ts
+
+const messageSchema: Schema<ConversationChannelMessage> = {
+  id: 'string',
+  conversationId: 'string',
+  senderId: optional('string'),
+  role: oneOf(ChatRoleType),
+  content: 'string',
+  messageType: oneOf(MessageType),
+  replyToId: optional('string'),
+  editedAt: optional('string'),
+  unsentAt: optional('string'),
+  deletedAt: optional('string'),
+  metadata: optional('object'),
+  attachments: optional('array'),
+  reactions: optional('array'),
+  mentions: optional('array'),
+  clientMessageId: optional('string'),
+  createdAt: 'string',
+  updatedAt: 'string',
+};
+
+const conversationSchema: Schema<ConversationChannel> = {
+  id: 'string',
+  type: oneOf(ConversationType),
+  name: optional('string'),
+  description: optional('string'),
+  imageUrl: optional('string'),
+  createdBy: optional('string'),
+  lastMessageAt: optional('string'),
+  memberCount: 'number',
+  members: optional('array'),
+  createdAt: 'string',
+  updatedAt: 'string',
+};
+
+// Partial updates only need an ID; any other field present must still be well-typed
+const conversationUpdateSchema: Schema<ConversationChannel> = Object.fromEntries(
+  Object.entries(conversationSchema).map(([key, rule]: [string, FieldRule]) => [
+    key,
+    key === 'id' || isOptionalRule(rule) ? rule : optional(rule),
+  ])
+);
+
+const reactionSchema: Schema<ConversationChannelMessageReaction> = {
+  id: 'string',
+  messageId: 'string',
+  userId: 'string',
+  emoji: 'string',
+  count: optional('number'),
+  createdAt: 'string',
+  updatedAt: 'string',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+  if (typeof type === 'object') {
+    return typeof value === 'string' && type.oneOf.includes(value);
+  }
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(type: FieldType): string {
+  return typeof type === 'object' ? `one of ${type.oneOf.join(', ')}` : type;
+}
+
+// Check a value against a schema, collecting an issue per failing field
+function checkSchema<T>(value: unknown, schema: Schema<T>, path: string): string[] {
+  if (!isRecord(value)) {
+    return [`${path}: expected an object`];
+  }
+
+  const issues: string[] = [];
+  Object.entries(schema).forEach(([key, rule]) => {
+    const { type, optional: isOptional } = isOptionalRule(rule as FieldRule)
+      ? (rule as { type: FieldType; optional: true })
+      : { type: rule as FieldType, optional: false };
+    const fieldValue = value[key];
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!isOptional) {
+        issues.push(`${path}.${key}: required`);
+      }
+      return;
+    }
+
+    if (!matchesType(fieldValue, type)) {
+      issues.push(`${path}.${key}: expected ${describeType(type)}`);
+    }
+  });
+
+  return issues;
+}
+
+function result<T>(value: T, issues: string[]): ValidationResult<T> {
+  return issues.length > 0 ? { ok: false, issues, value } : { ok: true, value };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Accepts both a bare message and the wrapped { message, conversationId, senderId } form
+const validateMessage: Validator<ConversationChannelMessage> = (payload) => {
+  const candidate = isRecord(payload) && isRecord(payload.message)
+    ? {
+        conversationId: payload.conversationId,
+        senderId: payload.senderId,
+        ...payload.message,
+      }
+    : payload;
+
+  return result(
+    candidate as ConversationChannelMessage,
+    checkSchema(candidate, messageSchema, 'message')
+  );
+};
+
+// Deletes and unsends identify the message either directly or through the message object
+const validateMessageRemoved: Validator<ServerToClientEventPayloads['message:deleted']> = (payload) => {
+  if (!isRecord(payload)) {
+    return { ok: false, issues: ['payload: expected an object'] };
+  }
+
+  const message = isRecord(payload.message) ? payload.message : {};
+  const normalized = {
+    messageId: payload.messageId ?? message.id,
+    conversationId: payload.conversationId ?? message.conversationId,
+  };
+
+  return result(
+    normalized as ServerToClientEventPayloads['message:deleted'],
+    checkSchema(normalized, { messageId: 'string', conversationId: 'string' }, 'payload')
+  );
+};
+
+const validateMessageRead: Validator<ServerToClientEventPayloads['message:read']> = (payload) =>
+  result(
+    payload as ServerToClientEventPayloads['message:read'],
+    checkSchema(payload, {
+      conversationId: 'string',
+      userId: 'string',
+      timestamp: optional('string'),
+      messageId: optional('string'),
+    }, 'payload')
+  );
+
+// Reaction events may carry the reaction entity instead of flat fields
+const validateReaction: Validator<ServerToClientEventPayloads['message:reaction:added']> = (payload) => {
+  if (!isRecord(payload)) {
+    return { ok: false, issues: ['payload: expected an object'] };
+  }
+
+  const reaction = isRecord(payload.reaction) ? payload.reaction : undefined;
+  const normalized = {
+    messageId: payload.messageId ?? reaction?.messageId,
+    conversationId: optionalString(payload.conversationId),
+    userId: optionalString(payload.userId ?? reaction?.userId),
+    emoji: optionalString(payload.emoji ?? reaction?.emoji),
+    reaction,
+  };
+
+  return result(
+    normalized as ServerToClientEventPayloads['message:reaction:added'],
+    [
+      ...checkSchema(normalized, { messageId: 'string' }, 'payload'),
+      ...(reaction ? checkSchema(reaction, reactionSchema, 'payload.reaction') : []),
+    ]
+  );
+};
+
+const validateMention: Validator<ServerToClientEventPayloads['message:mention']> = (payload) => {
+  if (!isRecord(payload)) {
+    return { ok: false, issues: ['payload: expected an object'] };
+  }
+
+  const message = isRecord(payload.message) ? payload.message : undefined;
+  const normalized = {
+    conversationId: payload.conversationId ?? message?.conversationId,
+    messageId: optionalString(payload.messageId ?? message?.id),
+    message,
+    mentionedUserId: optionalString(payload.mentionedUserId),
+  };
+
+  return result(
+    normalized as ServerToClientEventPayloads['message:mention'],
+    [
+      ...checkSchema(normalized, { conversationId: 'string' }, 'payload'),
+      ...(message ? checkSchema(message, messageSchema, 'payload.message') : []),
+    ]
+  );
+};
+
+// Accepts both a bare conversation and the wrapped { conversation } form
+const validateNewConversation: Validator<ConversationChannel> = (payload) => {
+  const candidate = isRecord(payload) && isRecord(payload.conversation) ? payload.conversation : payload;
+  return result(
+    candidate as ConversationChannel,
+    checkSchema(candidate, conversationSchema, 'conversation')
+  );
+};
+
+const validateConversationUpdated: Validator<ServerToClientEventPayloads['conversation:updated']> = (payload) => {
+  if (!isRecord(payload)) {
+    return { ok: false, issues: ['payload: expected an object'] };
+  }
+
+  const wrapped = isRecord(payload.conversation);
+  const normalized = {
+    conversation: wrapped ? payload.conversation : payload,
+    updatedBy: optionalString(wrapped ? payload.updatedBy ?? payload.userId : undefined),
+  };
+
+  return result(
+    normalized as ServerToClientEventPayloads['conversation:updated'],
+    checkSchema(normalized.conversation, conversationUpdateSchema, 'conversation')
+  );
+};
+
+function validateFlat<E extends ServerToClientEventName>(
+  schema: Schema<ServerToClientEventPayloads[E]>
+): Validator<ServerToClientEventPayloads[E]> {
+  return (payload) =>
+    result(payload as ServerToClientEventPayloads[E], checkSchema(payload, schema, 'payload'));
+}
+
+const membershipSchema = { conversationId: 'string', userId: 'string' } as const;
+
+const validateTypingUpdate: Validator<ServerToClientEventPayloads['typing:update']> = (payload) => {
+  const issues = checkSchema(payload, { conversationId: 'string', typingUsers: 'array' }, 'payload');
+  if (issues.length === 0 && isRecord(payload)) {
+    (payload.typingUsers as unknown[]).forEach((userId, index) => {
+      if (typeof userId !== 'string') {
+        issues.push(`payload.typingUsers[${index}]: expected string`);
+      }
+    });
+  }
+  return result(payload as ServerToClientEventPayloads['typing:update'], issues);
+};
+
+const eventValidators: { [E in ServerToClientEventName]: Validator<ServerToClientEventPayloads[E]> } = {
+  'message:new': validateMessage,
+  'message:sent': validateMessage,
+  'message:updated': validateMessage,
+  'message:deleted': validateMessageRemoved,
+  'message:unsent': validateMessageRemoved,
+  'message:read': validateMessageRead,
+  'message:delivered': validateFlat<'message:delivered'>({
+    conversationId: 'string',
+    messageId: 'string',
+    userId: 'string',
+    timestamp: optional('string'),
+  }),
+  'message:reaction:added': validateReaction,
+  'message:reaction:removed': validateReaction,
+  'message:mention': validateMention,
+  'conversation:new': validateNewConversation,
+  'conversation:updated': validateConversationUpdated,
+  'conversation:joined': validateFlat<'conversation:joined'>(membershipSchema),
+  'conversation:left': validateFlat<'conversation:left'>(membershipSchema),
+  'conversation:member:added': validateFlat<'conversation:member:added'>({
+    ...membershipSchema,
+    addedBy: optional('string'),
+  }),
+  'conversation:member:removed': validateFlat<'conversation:member:removed'>({
+    ...membershipSchema,
+    removedBy: optional('string'),
+  }),
+  'typing:update': validateTypingUpdate,
+  'user:status': validateFlat<'user:status'>({
+    userId: 'string',
+    status: oneOf(USER_PRESENCE_STATUSES),
+    lastSeenAt: optional('string'),
+  }),
+};
+
+/**
+ * Validate an inbound socket payload and normalize it to the shape declared
+ * in ServerToClientEventPayloads
+ */
+export function validateServerEvent<E extends ServerToClientEventName>(
+  event: E,
+  payload: unknown
+): ValidationResult<ServerToClientEventPayloads[E]> {
+  const validator = eventValidators[event] as Validator<ServerToClientEventPayloads[E]>;
+  return validator(payload);
+}
+
+// Normalize the timestamps of a validated payload, as ConversationService does for REST responses
+export function normalizeEventTimestamps<E extends ServerToClientEventName>(
+  event: E,
+  payload: ServerToClientEventPayloads[E]
+): ServerToClientEventPayloads[E] {
+  switch (event) {
+    case 'message:new':
+    case 'message:sent':
+    case 'message:updated':
+      return normalizeMessage(payload as ConversationChannelMessage) as ServerToClientEventPayloads[E];
+    case 'message:read':
+    case 'message:delivered': {
+      const read = payload as ServerToClientEventPayloads['message:read' | 'message:delivered'];
+      return (read.timestamp
+        ? { ...read, timestamp: normalizeTimestamp(read.timestamp) }
+        : read) as ServerToClientEventPayloads[E];
+    }
+    case 'message:reaction:added':
+    case 'message:reaction:removed': {
+      const reaction = payload as ServerToClientEventPayloads['message:reaction:added'];
+      return (reaction.reaction
+        ? { ...reaction, reaction: normalizeReaction(reaction.reaction) }
+        : reaction) as ServerToClientEventPayloads[E];
+    }
+    case 'message:mention': {
+      const mention = payload as ServerToClientEventPayloads['message:mention'];
+      return (mention.message
+        ? { ...mention, message: normalizeMessage(mention.message) }
+        : mention) as ServerToClientEventPayloads[E];
+    }
+    case 'conversation:new':
+      return normalizeConversation(payload as ConversationChannel) as ServerToClientEventPayloads[E];
+    case 'conversation:updated': {
+      const update = payload as ServerToClientEventPayloads['conversation:updated'];
+      return { ...update, conversation: normalizeConversation(update.conversation) } as ServerToClientEventPayloads[E];
+    }
+    case 'user:status': {
+      const status = payload as ServerToClientEventPayloads['user:status'];
+      return (status.lastSeenAt
+        ? { ...status, lastSeenAt: normalizeTimestamp(status.lastSeenAt) }
+        : status) as ServerToClientEventPayloads[E];
+    }
+    default:
+      return payload;
+  }
+}
@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { MessageType, SendMessageEventPayload } from '@/types/messaging';
+import { MemoryOutboxStorage, Outbox, OutboxItem, OutboxOptions } from './outbox';
+
+const USER_ID = 'user-1';
+
+const messagePayload = (conversationId: string, content: string): SendMessageEventPayload => ({
+  conversationId,
+  clientMessageId: content,
+  message: { content, messageType: MessageType.TEXT },
+});
+
+const contentOf = (item: OutboxItem) => (item.payload as SendMessageEventPayload).message.content;
+
+describe('Outbox', () => {
+  const outboxes: Outbox[] = [];
+
+  // Each outbox renews its lease on a timer until disposed
+  async function createOutbox(storage = new MemoryOutboxStorage(), options: OutboxOptions = {}) {
+    const outbox = new Outbox(storage, options);
+    outboxes.push(outbox);
+    await outbox.setUserId(USER_ID);
+    return outbox;
+  }
+
+  afterEach(() => {
+    outboxes.splice(0).forEach(outbox => outbox.dispose());
+  });
+
+  describe('leases', () => {
+    it('leaves items another outbox holds alone', async () => {
+      const storage = new MemoryOutboxStorage();
+      const first = await createOutbox(storage);
+      await first.enqueue('message:send', messagePayload('c1', 'hello'), 'm1');
+
+      const second = await createOutbox(storage);
+
+      assert.deepEqual(second.getItems(), []);
+      assert.deepEqual(first.getItems().map(item => item.id), ['m1']);
+    });
+
+    it('adopts items once the holder stops renewing its lease', async () => {
+      const storage = new MemoryOutboxStorage();
+      const first = await createOutbox(storage, { leaseMs: 60 });
+      await first.enqueue('message:send', messagePayload('c1', 'hello'), 'm1');
+      // Caught mid-send when its tab closed
+      await storage.save({ ...first.getItems()[0], status: 'sending' });
+      first.dispose();
+
+      let adopted = 0;
+      const second = await createOutbox(storage, { leaseMs: 60, onItemsAdopted: () => adopted++ });
+      assert.deepEqual(second.getItems(), []);
+      await delay(150);
+
+      assert.equal(adopted, 1);
+      assert.deepEqual(second.getItems().map(item => [item.id, item.status]), [['m1', 'queued']]);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('keeps only the latest read per conversation', async () => {
+      const storage = new MemoryOutboxStorage();
+      const outbox = await createOutbox(storage);
+
+      await outbox.enqueue('message:read', { conversationId: 'c1' }, 'r1');
+      await outbox.enqueue('message:read', { conversationId: 'c2' }, 'r2');
+      await outbox.enqueue('message:read', { conversationId: 'c1' }, 'r3');
+
+      assert.deepEqual(outbox.getItems().map(item => item.id), ['r2', 'r3']);
+      assert.deepEqual((await storage.load(USER_ID)).map(item => item.id).sort(), ['r2', 'r3']);
+    });
+
+    it('replaces a queued typing start with the stop that follows it, without persisting either', async () => {
+      const storage = new MemoryOutboxStorage();
+      const outbox = await createOutbox(storage);
+
+      await outbox.enqueue('typing:start', { conversationId: 'c1' }, 't1');
+      await outbox.enqueue('typing:stop', { conversationId: 'c1' }, 't2');
+
+      assert.deepEqual(outbox.getItems().map(item => item.id), ['t2']);
+      assert.deepEqual(await storage.load(USER_ID), []);
+    });
+
+    it('never coalesces messages', async () => {
+      const outbox = await createOutbox();
+
+      await outbox.enqueue('message:send', messagePayload('c1', 'one'), 'm1');
+      await outbox.enqueue('message:send', messagePayload('c1', 'two'), 'm2');
+
+      assert.deepEqual(outbox.getItems().map(item => item.id), ['m1', 'm2']);
+    });
+  });
+
+  describe('requeueFailed', () => {
+    it('requeues only the failed items the predicate accepts, clearing their errors', async () => {
+      const outbox = await createOutbox();
+      await outbox.enqueue('message:send', messagePayload('c1', 'one'), 'm1');
+      await outbox.enqueue('message:send', messagePayload('c1', 'two'), 'm2');
+
+      await outbox.flush(async item => {
+        throw Object.assign(new Error(`rejected ${item.id}`), { code: item.id === 'm1' ? 'TIMEOUT' : 'FORBIDDEN' });
+      }, () => true);
+      await outbox.requeueFailed(item => item.errorCode === 'TIMEOUT');
+
+      assert.deepEqual(outbox.getItems().map(item => [item.id, item.status, item.errorCode]), [
+        ['m1', 'queued', undefined],
+        ['m2', 'failed', 'FORBIDDEN'],
+      ]);
+    });
+  });
+
+  describe('ordering', () => {
+    it('sends in enqueue order across a dropped connection', async () => {
+      const outbox = await createOutbox();
+      let connected = false;
+      const sent: string[] = [];
+      const send = async (item: OutboxItem) => {
+        // The connection drops while the second message is in flight
+        if (contentOf(item) === 'two' && !sent.includes('dropped')) {
+          sent.push('dropped');
+          connected = false;
+          throw new Error('disconnected');
+        }
+        sent.push(contentOf(item));
+      };
+
+      // Queued while offline
+      await outbox.enqueue('message:send', messagePayload('c1', 'one'));
+      await outbox.enqueue('message:send', messagePayload('c1', 'two'));
+      await outbox.enqueue('message:send', messagePayload('c1', 'three'));
+      await outbox.flush(send, () => connected);
+      assert.deepEqual(sent, []);
+
+      connected = true;
+      await outbox.flush(send, () => connected);
+      assert.deepEqual(sent, ['one', 'dropped']);
+
+      // Reconnected
+      connected = true;
+      await outbox.requeueFailed(() => true);
+      await outbox.flush(send, () => connected);
+
+      assert.deepEqual(sent.filter(content => content !== 'dropped'), ['one', 'two', 'three']);
+      assert.ok(outbox.getItems().every(item => item.status === 'sent'));
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import { ClientToServerEventPayloads } from '@/types/messaging';
+import { generateId } from '@/lib/utils';
+
+// Client-to-server events that are queued while the socket is disconnected
+export type OutboxEventName =
+  | 'message:send'
+  | 'message:read'
+  | 'typing:start'
+  | 'typing:stop'
+  | 'conversation:join';
+
+export type OutboxItemStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export type OutboxItem<E extends OutboxEventName = OutboxEventName> = {
+  id: string;
+  userId: string;
+  event: E;
+  payload: ClientToServerEventPayloads[E];
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: number;
+  error?: string;
+  // Code of the error that failed the item, if it had one
+  errorCode?: string;
+  // The outbox currently responsible for sending the item, until the lease expires
+  ownerId?: string;
+  leaseExpiresAt?: number;
+};
+
+export type OutboxListener = (items: OutboxItem[]) => void;
+
+// Sends one item; throwing marks the item as failed
+export type OutboxSender = (item: OutboxItem) => Promise<void>;
+
+// Persistence backend for queued items
+export interface OutboxStorage {
+  load(userId: string): Promise<OutboxItem[]>;
+  // Atomically take over a user's items that are unowned, owned by ownerId or
+  // whose lease has expired, and return them with the new lease
+  claim(userId: string, ownerId: string, leaseMs: number): Promise<OutboxItem[]>;
+  save(item: OutboxItem): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export type OutboxOptions = {
+  // How long a claim on persisted items lasts without renewal (defaults to 30s)
+  leaseMs?: number;
+  // Called when items left by another outbox, e.g. a closed tab, are taken over
+  onItemsAdopted?: () => void;
+};
+
+// Typing indicators are ephemeral and never persisted
+const EPHEMERAL_EVENTS: OutboxEventName[] = ['typing:start', 'typing:stop'];
+
+// Events where only the latest queued item per conversation matters
+const COALESCED_EVENTS: OutboxEventName[] = ['message:read', 'typing:start', 'typing:stop', 'conversation:join'];
+
+// Sent items kept around so subscribers can show their final status
+const MAX_SENT_ITEMS = 50;
+
+const DEFAULT_LEASE_MS = 30 * 1000;
+
+function isClaimable(item: OutboxItem, ownerId: string, now: number): boolean {
+  return !item.ownerId || item.ownerId === ownerId || (item.leaseExpiresAt ?? 0) <= now;
+}
+
+function byCreatedAt(a: OutboxItem, b: OutboxItem): number {
+  return a.createdAt - b.createdAt;
+}
+
+/**
+ * In-memory storage, used when IndexedDB is unavailable
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+  private items: Map<string, OutboxItem> = new Map();
+
+  async load(userId: string): Promise<OutboxItem[]> {
+    return Array.from(this.items.values()).filter(item => item.userId === userId);
+  }
+
+  async claim(userId: string, ownerId: string, leaseMs: number): Promise<OutboxItem[]> {
+    const now = Date.now();
+    const claimed = (await this.load(userId))
+      .filter(item => isClaimable(item, ownerId, now))
+      .map(item => ({ ...item, ownerId, leaseExpiresAt: now + leaseMs }));
+    claimed.forEach(item => this.items.set(item.id, { ...item }));
+    return claimed.sort(byCreatedAt);
+  }
+
+  async save(item: OutboxItem): Promise<void> {
+    this.items.set(item.id, { ...item });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+}
+
+/**
+ * IndexedDB storage so queued sends survive page reloads
+ */
+export class IndexedDbOutboxStorage implements OutboxStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = 'messaging-outbox', private storeName: string = 'items') {}
+
+  async load(userId: string): Promise<OutboxItem[]> {
+    const store = await this.getStore('readonly');
+    const items = await this.wrapRequest<OutboxItem[]>(store.index('userId').getAll(userId));
+    return items.sort(byCreatedAt);
+  }
+
+  // Read and rewrite in one readwrite transaction, which IndexedDB serializes across tabs
+  async claim(userId: string, ownerId: string, leaseMs: number): Promise<OutboxItem[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      let claimed: OutboxItem[] = [];
+
+      const request = store.index('userId').getAll(userId);
+      request.onsuccess = () => {
+        const now = Date.now();
+        claimed = (request.result as OutboxItem[])
+          .filter(item => isClaimable(item, ownerId, now))
+          .map(item => ({ ...item, ownerId, leaseExpiresAt: now + leaseMs }));
+        claimed.forEach(item => store.put(item));
+      };
+      transaction.oncomplete = () => resolve(claimed.sort(byCreatedAt));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async save(item: OutboxItem): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await this.wrapRequest(store.put(item));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await this.wrapRequest(store.delete(id));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private wrapRequest<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Pick IndexedDB in the browser, memory everywhere else
+export function createOutboxStorage(): OutboxStorage {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDbOutboxStorage();
+  }
+  return new MemoryOutboxStorage();
+}
+
+/**
+ * Ordered queue of outgoing socket emits
+ * Items are persisted until sent and flushed in the order they were queued
+ * Persisted items are shared by every outbox on the origin, so each outbox
+ * holds a renewable lease on the ones it sends; another tab or instance for
+ * the same user leaves them alone until the lease lapses
+ */
+export class Outbox {
+  private items: OutboxItem[] = [];
+  private listeners: OutboxListener[] = [];
+  private userId: string = '';
+  private flushing: Promise<void> | null = null;
+  private ownerId = generateId();
+  private leaseMs: number;
+  private onItemsAdopted?: () => void;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private storage: OutboxStorage = createOutboxStorage(), options: OutboxOptions = {}) {
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.onItemsAdopted = options.onItemsAdopted;
+  }
+
+  // Switch to a user's queue, restoring anything persisted for them that no other outbox holds
+  // Items queued while the restore is in flight are kept
+  async setUserId(userId: string): Promise<void> {
+    if (userId !== this.userId) {
+      this.items = [];
+    }
+    this.userId = userId;
+    this.stopHeartbeat();
+
+    if (userId) {
+      await this.claim();
+      this.heartbeat = setInterval(() => {
+        this.claim().then(adopted => {
+          if (adopted) this.onItemsAdopted?.();
+        });
+      }, this.leaseMs / 3);
+    }
+
+    this.notify();
+  }
+
+  // Stop renewing the lease; the items are left for other outboxes once it lapses
+  dispose(): void {
+    this.stopHeartbeat();
+  }
+
+  // Queue an emit; returns the stored item
+  async enqueue<E extends OutboxEventName>(
+    event: E,
+    payload: ClientToServerEventPayloads[E],
+    id: string = generateId()
+  ): Promise<OutboxItem<E>> {
+    // Replacing superseded items and queueing the new one is a single synchronous step,
+    // so the queue order always matches the order of enqueue calls
+    const superseded = COALESCED_EVENTS.includes(event) ? this.takeSuperseded(event, payload) : [];
+    const item: OutboxItem<E> = {
+      id,
+      userId: this.userId,
+      event,
+      payload,
+      status: 'queued',
+      attempts: 0,
+      createdAt: Date.now(),
+      ownerId: this.ownerId,
+      leaseExpiresAt: Date.now() + this.leaseMs,
+    };
+    this.items.push(item);
+
+    await Promise.all(superseded.map(old => this.storage.remove(old.id).catch(() => undefined)));
+    await this.persist(item);
+    this.notify();
+    return item;
+  }
+
+  // Send every pending item in order; concurrent calls share one flush
+  flush(send: OutboxSender, canSend: () => boolean): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush(send, canSend).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  // Put a failed item back in the queue
+  async retry(id: string): Promise<void> {
+    const item = this.items.find(i => i.id === id);
+    if (!item || item.status !== 'failed') return;
+
+    await this.update(item, { status: 'queued', error: undefined, errorCode: undefined });
+  }
+
+  // Put every failed item the predicate accepts back in the queue, e.g. after reconnecting
+  async requeueFailed(shouldRetry: (item: OutboxItem) => boolean): Promise<void> {
+    const failed = this.items.filter(item => item.status === 'failed' && shouldRetry(item));
+    await Promise.all(failed.map(item => this.update(item, { status: 'queued', error: undefined, errorCode: undefined })));
+  }
+
+  // Drop an item without sending it
+  async discard(id: string): Promise<void> {
+    this.items = this.items.filter(item => item.id !== id);
+    await this.storage.remove(id).catch(error => {
+      console.error('Outbox: Failed to remove item:', error);
+    });
+    this.notify();
+  }
+
+  getItems(): OutboxItem[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  // Subscribe to item changes; returns an unsubscribe function
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.push(listener);
+    listener(this.getItems());
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async runFlush(send: OutboxSender, canSend: () => boolean): Promise<void> {
+    let next = this.items.find(item => item.status === 'queued');
+
+    while (next && canSend()) {
+      const item = next;
+      await this.update(item, { status: 'sending', attempts: item.attempts + 1 });
+
+      try {
+        await send(item);
+        await this.markSent(item);
+      } catch (error) {
+        await this.update(item, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          errorCode: (error as { code?: unknown } | null)?.code?.toString(),
+        });
+      }
+
+      next = this.items.find(i => i.status === 'queued');
+    }
+  }
+
+  private async markSent(item: OutboxItem): Promise<void> {
+    item.status = 'sent';
+    item.error = undefined;
+    await this.storage.remove(item.id).catch(error => {
+      console.error('Outbox: Failed to remove sent item:', error);
+    });
+
+    const sent = this.items.filter(i => i.status === 'sent');
+    if (sent.length > MAX_SENT_ITEMS) {
+      const pruned = new Set(sent.slice(0, sent.length - MAX_SENT_ITEMS));
+      this.items = this.items.filter(i => !pruned.has(i));
+    }
+
+    this.notify();
+  }
+
+  private async update(item: OutboxItem, changes: Partial<OutboxItem>): Promise<void> {
+    Object.assign(item, changes);
+    await this.persist(item);
+    this.notify();
+  }
+
+  // Take queued items for the same event and conversation as a newer one out of the queue;
+  // the caller removes them from storage
+  private takeSuperseded<E extends OutboxEventName>(
+    event: E,
+    payload: ClientToServerEventPayloads[E]
+  ): OutboxItem[] {
+    const superseded = this.items.filter(item =>
+      item.status === 'queued' &&
+      item.payload.conversationId === payload.conversationId &&
+      (item.event === event || EPHEMERAL_EVENTS.includes(event) && EPHEMERAL_EVENTS.includes(item.event))
+    );
+    this.items = this.items.filter(item => !superseded.includes(item));
+    return superseded;
+  }
+
+  // Claim or renew this user's persisted items; returns whether any new ones were taken over
+  private async claim(): Promise<boolean> {
+    const userId = this.userId;
+    let claimed: OutboxItem[];
+    try {
+      claimed = await this.storage.claim(userId, this.ownerId, this.leaseMs);
+    } catch (error) {
+      console.error('Outbox: Failed to restore queued items:', error);
+      return false;
+    }
+    // The user changed while the claim was in flight
+    if (userId !== this.userId) return false;
+
+    const known = new Map(this.items.map(item => [item.id, item]));
+    claimed.forEach(item => {
+      const existing = known.get(item.id);
+      if (existing) existing.leaseExpiresAt = item.leaseExpiresAt;
+    });
+
+    // Anything caught mid-send when its previous owner went away is retried
+    const adopted = claimed
+      .filter(item => !known.has(item.id))
+      .map(item => item.status === 'sending' ? { ...item, status: 'queued' as const } : item);
+    if (adopted.length === 0) return false;
+
+    this.items = [...this.items, ...adopted].sort(byCreatedAt);
+    this.notify();
+    return true;
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private async persist(item: OutboxItem): Promise<void> {
+    if (EPHEMERAL_EVENTS.includes(item.event)) return;
+
+    try {
+      await this.storage.save(item);
+    } catch (error) {
+      console.error('Outbox: Failed to persist item:', error);
+    }
+  }
+
+  private notify(): void {
+    const items = this.getItems();
+    this.listeners.forEach(listener => listener(items));
+  }
+}
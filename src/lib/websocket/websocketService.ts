@@ -1,13 +1,34 @@
 'use client';
 
-import { WebSocketMessage, WebSocketMessageType } from '@/types/messaging';
+import type { Socket } from 'socket.io-client';
+import {
+  ClientToServerEventName,
+  ClientToServerEventPayloads,
+  ConversationChannelMessage,
+  ConversationEventName,
+  MessageEventName,
+  MessageSendAck,
+  SendMessageDto,
+  ServerToClientEventName,
+  ServerToClientEventPayloads,
+  UserPresenceStatus,
+  UserStatusPayload,
+} from '@/types/messaging';
+import { ValidationPolicy, normalizeEventTimestamps, validateServerEvent } from './eventSchemas';
+import { Outbox, OutboxEventName, OutboxItem, OutboxListener, OutboxStorage } from './outbox';
+import { MessageSendError } from './errors';
+import { generateId } from '@/lib/utils';
+import { ConversationService } from '@/lib/api/conversationService';
+import { serverClock } from '@/lib/time/serverClock';
+import { ForbiddenError, NotFoundError } from '@/lib/api/errors';
+import { AuthProvider, defaultAuthProvider } from '@/lib/auth/authProvider';
 
 // WebSocket connection statuses
 export type WebSocketStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
 // WebSocket events
 export type WebSocketEvent = {
-  type: 'open' | 'close' | 'error' | 'message';
+  type: 'open' | 'close' | 'error' | 'message' | 'validation:error';
   timestamp: number;
   data?: any;
   error?: string;
@@ -16,33 +37,220 @@ export type WebSocketEvent = {
 // Typing event handler
 export type TypingUpdateHandler = (conversationId: string, typingUsers: string[]) => void;
 
-// Message event handlers
-export type MessageHandler = (data: any) => void;
-export type ConversationHandler = (data: any) => void;
-export type UserStatusHandler = (userId: string, status: 'online' | 'offline') => void;
+// Message event handlers, typed by the event they are registered for
+export type MessageHandler<E extends MessageEventName = MessageEventName> =
+  (data: ServerToClientEventPayloads[E]) => void;
+export type ConversationHandler<E extends ConversationEventName = ConversationEventName> =
+  (data: ServerToClientEventPayloads[E]) => void;
+export type UserStatusHandler = (userId: string, status: UserPresenceStatus, lastSeenAt?: string) => void;
+export type StatusChangeHandler = (status: WebSocketStatus) => void;
+export type EventLogHandler = (events: WebSocketEvent[]) => void;
+
+// Returned by every on* registration; removes that one handler
+export type Unsubscribe = () => void;
+
+// Options for a WebSocketService instance
+export type WebSocketServiceOptions = {
+  // How to treat inbound payloads that fail validation (defaults to 'drop')
+  validationPolicy?: ValidationPolicy;
+  // Where queued sends are persisted (defaults to IndexedDB, falling back to memory)
+  outboxStorage?: OutboxStorage;
+  // How long to wait for the server to acknowledge message:send (defaults to 10s)
+  ackTimeoutMs?: number;
+  // Credentials for the handshake (defaults to the development API key)
+  authProvider?: AuthProvider;
+  // Emit message:delivered for other users' messages as they arrive (defaults to true)
+  deliveryReceipts?: boolean;
+};
+
+// Per-call options for sendMessage
+export type SendMessageOptions = {
+  timeoutMs?: number;
+};
+
+// Most recent message seen per conversation, used to backfill after reconnecting
+type LastSeenMessage = {
+  id: string;
+  createdAt: string;
+};
+
+// Pages of history fetched per conversation when backfilling a gap
+const BACKFILL_PAGE_SIZE = 50;
+const BACKFILL_MAX_PAGES = 5;
+
+type PendingSend = {
+  conversationId: string;
+  timeoutMs: number;
+  resolve: (message: ConversationChannelMessage) => void;
+  reject: (error: MessageSendError) => void;
+};
+
+// Socket.io listener and emitter signatures; inbound payloads are unchecked
+// until they pass through validateServerEvent
+type ServerToClientEvents = {
+  [E in ServerToClientEventName]: (data: unknown) => void;
+};
+type ClientToServerEvents = {
+  [E in Exclude<ClientToServerEventName, 'message:send'>]: (data: ClientToServerEventPayloads[E]) => void;
+} & {
+  'message:send': (
+    data: ClientToServerEventPayloads['message:send'],
+    ack: (response: MessageSendAck) => void
+  ) => void;
+};
+
+type MessagingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Handler lists keyed by event name, typed per event through the accessors
+class HandlerRegistry<P> {
+  private handlers: Map<keyof P, ((data: never) => void)[]> = new Map();
+
+  get<K extends keyof P>(event: K): ((data: P[K]) => void)[] {
+    return (this.handlers.get(event) || []) as ((data: P[K]) => void)[];
+  }
+
+  add<K extends keyof P>(event: K, handler: (data: P[K]) => void): void {
+    this.handlers.set(event, [...this.get(event), handler]);
+  }
+
+  remove<K extends keyof P>(event: K, handler: (data: P[K]) => void): void {
+    this.handlers.set(event, this.get(event).filter(h => h !== handler));
+  }
+}
+
+// Bounded set of recently seen IDs, oldest evicted first
+class RecentIds {
+  private ids: Set<string> = new Set();
+
+  constructor(private limit: number = 500) {}
+
+  // Returns false if the ID was already present
+  add(id: string): boolean {
+    if (this.ids.has(id)) return false;
+
+    this.ids.add(id);
+    if (this.ids.size > this.limit) {
+      this.ids.delete(this.ids.values().next().value as string);
+    }
+    return true;
+  }
+}
+
+/**
+ * Listeners registered through a scope are all removed by dispose()
+ * Registering on a disposed scope does nothing, so late registrations from
+ * async callbacks can't outlive it
+ */
+export class WebSocketListenerScope {
+  private unsubscribes: Unsubscribe[] = [];
+  private disposed = false;
+
+  constructor(private service: WebSocketService) {}
+
+  onMessageEvent<E extends MessageEventName>(event: E, handler: MessageHandler<E>): Unsubscribe {
+    return this.track(() => this.service.onMessageEvent(event, handler));
+  }
+
+  onConversationEvent<E extends ConversationEventName>(event: E, handler: ConversationHandler<E>): Unsubscribe {
+    return this.track(() => this.service.onConversationEvent(event, handler));
+  }
+
+  onTypingUpdate(conversationId: string, handler: TypingUpdateHandler): Unsubscribe {
+    return this.track(() => this.service.onTypingUpdate(conversationId, handler));
+  }
+
+  onUserStatus(handler: UserStatusHandler): Unsubscribe {
+    return this.track(() => this.service.onUserStatus(handler));
+  }
+
+  onStatusChange(callback: StatusChangeHandler): Unsubscribe {
+    return this.track(() => this.service.onStatusChange(callback));
+  }
+
+  onEventLog(callback: EventLogHandler): Unsubscribe {
+    return this.track(() => this.service.onEventLog(callback));
+  }
+
+  onOutboxChange(listener: OutboxListener): Unsubscribe {
+    return this.track(() => this.service.onOutboxChange(listener));
+  }
+
+  // Remove every listener registered through this scope
+  dispose(): void {
+    this.disposed = true;
+    const unsubscribes = this.unsubscribes;
+    this.unsubscribes = [];
+    unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  private track(register: () => Unsubscribe): Unsubscribe {
+    if (this.disposed) return () => {};
+
+    const unsubscribe = register();
+    this.unsubscribes.push(unsubscribe);
+    return () => {
+      this.unsubscribes = this.unsubscribes.filter(u => u !== unsubscribe);
+      unsubscribe();
+    };
+  }
+}
 
 /**
  * WebSocket service for managing connections and event logs
  * Implements Socket.io client for the messaging gateway
  */
 export class WebSocketService {
-  private socket: any = null; // Socket.io client
+  private socket: MessagingSocket | null = null;
   private status: WebSocketStatus = 'disconnected';
   private events: WebSocketEvent[] = [];
-  private messageHandlers: Map<string, MessageHandler[]> = new Map();
-  private conversationHandlers: Map<string, ConversationHandler[]> = new Map();
+  private messageHandlers = new HandlerRegistry<ServerToClientEventPayloads>();
+  private conversationHandlers = new HandlerRegistry<ServerToClientEventPayloads>();
   private typingHandlers: Map<string, TypingUpdateHandler[]> = new Map();
-  private statusChangeCallbacks: ((status: WebSocketStatus) => void)[] = [];
-  private eventLogCallbacks: ((events: WebSocketEvent[]) => void)[] = [];
+  private userStatusHandlers: UserStatusHandler[] = [];
+  private statusChangeCallbacks: StatusChangeHandler[] = [];
+  private eventLogCallbacks: EventLogHandler[] = [];
   private userId: string = "";
-  private apiKey: string = "test_key"; // THIS WILL BE GOING AWAY
+  private authProvider: AuthProvider;
+  private authRefreshAttempted: boolean = false;
+  private validationPolicy: ValidationPolicy;
+  private outbox: Outbox;
+  private ackTimeoutMs: number;
+  private deliveryReceipts: boolean;
+  // Status this client reports for whichever user is connected, re-sent after every reconnect
+  private ownPresence: UserStatusPayload['status'] | null = null;
+  private pendingSends: Map<string, PendingSend> = new Map();
+  private joinedConversations: Set<string> = new Set();
+  private lastSeenMessages: Map<string, LastSeenMessage> = new Map();
+  private lastDisconnectedAt: string | null = null;
+  private dispatchedMessageIds = {
+    'message:new': new RecentIds(),
+    'message:sent': new RecentIds(),
+  };
 
-  constructor(private url: string = 'wss://messaging-api.cerebralvalley.ai/messaging') {}
+  constructor(
+    private url: string = 'wss://messaging-api.cerebralvalley.ai/messaging',
+    options: WebSocketServiceOptions = {}
+  ) {
+    this.validationPolicy = options.validationPolicy ?? 'drop';
+    this.outbox = new Outbox(options.outboxStorage, { onItemsAdopted: () => this.flushOutbox() });
+    this.ackTimeoutMs = options.ackTimeoutMs ?? 10000;
+    this.authProvider = options.authProvider ?? defaultAuthProvider;
+    this.deliveryReceipts = options.deliveryReceipts ?? true;
+  }
 
   // Set the user ID for this connection
   setUserId(userId: string): void {
+    if (userId !== this.userId) {
+      // Rooms and catch-up state belong to the previous user
+      this.joinedConversations.clear();
+      this.lastSeenMessages.clear();
+      this.lastDisconnectedAt = null;
+    }
     this.userId = userId;
     
+    // Restore anything this user queued before a reload, then try to send it
+    this.outbox.setUserId(userId).then(() => this.flushOutbox());
+    
     // If already connected, reconnect with the new user ID
     if (this.socket && this.status === 'connected') {
       this.disconnect();
@@ -72,14 +280,18 @@ export class WebSocketService {
       
       console.log(`WebSocketService: Connecting to ${url} with userId ${this.userId}`);
       
-      // Connect to the socket with auth token in the extraHeaders
+      // Credentials are fetched on every handshake so reconnects pick up refreshed tokens
       this.socket = io(url, {
         transports: ['websocket'],
-        auth: {
-          token: this.userId,
-          'x-api-key': this.apiKey,
-          'x-user-id': this.userId
+        auth: (cb) => {
+          this.authProvider.getSocketAuth(this.userId)
+            .then(cb)
+            .catch(error => {
+              console.error('WebSocketService: Failed to get socket auth:', error);
+              cb({});
+            });
         },
+        withCredentials: this.authProvider.credentials === 'include',
         autoConnect: true,
         reconnection: true,
         reconnectionAttempts: 5,
@@ -104,6 +316,12 @@ export class WebSocketService {
     this.setStatus('disconnected');
   }
 
+  // Disconnect for good, releasing queued items to other tabs once their lease lapses
+  dispose(): void {
+    this.disconnect();
+    this.outbox.dispose();
+  }
+
   // Setup socket event handlers
   private setupSocketEventHandlers(): void {
     if (!this.socket) return;
@@ -111,17 +329,24 @@ export class WebSocketService {
     // Connection events
     this.socket.on('connect', () => {
       console.log(`WebSocketService: Connected to server with userId ${this.userId}`);
+      this.authRefreshAttempted = false;
       this.setStatus('connected');
       this.addEvent('open', { connected: true });
+      this.rejoinConversations();
+      this.announcePresence();
+      this.retryFailedSends();
+      this.backfillMissedMessages();
     });
 
     this.socket.on('disconnect', (reason: string) => {
       console.log(`WebSocketService: Disconnected from server, reason: ${reason}`);
+      // Compared with server timestamps when backfilling
+      this.lastDisconnectedAt = serverClock.nowISO();
       this.setStatus('disconnected');
       this.addEvent('close', { code: 1000, reason });
     });
 
-    this.socket.on('connect_error', (error: any) => {
+    this.socket.on('connect_error', (error: Error) => {
       console.error(`WebSocketService: Connection error:`, error);
       console.error(`WebSocketService: Connection error details:`, {
         url: this.url,
@@ -131,55 +356,63 @@ export class WebSocketService {
       });
       this.setStatus('error');
       this.addEvent('error', { error: `Connection error: ${error.message}` });
+
+      if (this.isAuthError(error)) {
+        this.refreshAuthAndReconnect();
+      }
     });
 
     // Debug events
-    this.socket.onAny((event: string, ...args: any[]) => {
+    this.socket.onAny((event: string, ...args: unknown[]) => {
       console.log(`WebSocketService: Received event '${event}':`, args);
     });
 
     // Message events
-    this.socket.on('message:new', (data: any) => {
+    this.onInbound('message:new', (data) => {
       console.log('WebSocketService: Received message:new event:', data);
-      this.addEvent('message', { received: true, message: data });
-      this.triggerMessageHandlers('message:new', data);
+      this.dispatchNewMessage(data);
     });
 
-    this.socket.on('message:sent', (data: any) => {
+    this.onInbound('message:sent', (data) => {
+      if (!this.acceptMessage('message:sent', data)) return;
       this.addEvent('message', { sent: true, message: data });
       this.triggerMessageHandlers('message:sent', data);
     });
 
-    this.socket.on('message:updated', (data: any) => {
+    this.onInbound('message:updated', (data) => {
       this.addEvent('message', { updated: true, message: data });
       this.triggerMessageHandlers('message:updated', data);
     });
 
-    this.socket.on('message:deleted', (data: any) => {
+    this.onInbound('message:deleted', (data) => {
       this.addEvent('message', { deleted: true, message: data });
       this.triggerMessageHandlers('message:deleted', data);
     });
 
-    this.socket.on('message:unsent', (data: any) => {
+    this.onInbound('message:unsent', (data) => {
       this.addEvent('message', { unsent: true, message: data });
       this.triggerMessageHandlers('message:unsent', data);
     });
 
     // Add handler for message:read events
-    this.socket.on('message:read', (data: any) => {
+    this.onInbound('message:read', (data) => {
       console.log('WebSocketService: Received message:read event:', JSON.stringify(data, null, 2));
       this.addEvent('message', { read: true, data });
       this.triggerMessageHandlers('message:read', data);
     });
 
+    this.onInbound('message:delivered', (data) => {
+      this.addEvent('message', { delivered: true, data });
+      this.triggerMessageHandlers('message:delivered', data);
+    });
+
     // Conversation events
-    this.socket.on('conversation:new', (data: any) => {
+    this.onInbound('conversation:new', (data) => {
       console.log('WebSocketService: Received conversation:new event:', JSON.stringify(data, null, 2));
       console.log('WebSocketService: Current userId:', this.userId);
       
       // Check if this user is a member of the conversation
-      const conversation = data.conversation || data;
-      const memberIds = conversation?.members?.map((m: any) => m.userId) || conversation?.memberIds || [];
+      const memberIds = data.members?.map(m => m.userId) || [];
       const isMember = this.userId && memberIds.includes(this.userId);
       
       console.log('WebSocketService: Conversation members:', memberIds);
@@ -189,176 +422,308 @@ export class WebSocketService {
       this.triggerConversationHandlers('conversation:new', data);
     });
 
-    this.socket.on('conversation:updated', (data: any) => {
+    this.onInbound('conversation:updated', (data) => {
       console.log('WebSocketService: Received conversation:updated event:', JSON.stringify(data, null, 2));
       this.addEvent('message', { conversation: 'updated', data });
       this.triggerConversationHandlers('conversation:updated', data);
     });
 
-    this.socket.on('conversation:joined', (data: any) => {
+    this.onInbound('conversation:joined', (data) => {
       console.log('WebSocketService: Received conversation:joined event:', data);
       this.addEvent('message', { conversation: 'joined', data });
       this.triggerConversationHandlers('conversation:joined', data);
     });
 
-    this.socket.on('conversation:left', (data: any) => {
+    this.onInbound('conversation:left', (data) => {
       console.log('WebSocketService: Received conversation:left event:', data);
+      if (data.userId === this.userId) {
+        this.forgetConversation(data.conversationId);
+      }
       this.addEvent('message', { conversation: 'left', data });
       this.triggerConversationHandlers('conversation:left', data);
     });
 
-    this.socket.on('conversation:member:added', (data: any) => {
+    this.onInbound('conversation:member:added', (data) => {
       console.log('WebSocketService: Received conversation:member:added event:', data);
       this.addEvent('message', { conversation: 'member:added', data });
       this.triggerConversationHandlers('conversation:member:added', data);
     });
 
-    this.socket.on('conversation:member:removed', (data: any) => {
+    this.onInbound('conversation:member:removed', (data) => {
       console.log('WebSocketService: Received conversation:member:removed event:', data);
+      if (data.userId === this.userId) {
+        this.forgetConversation(data.conversationId);
+      }
       this.addEvent('message', { conversation: 'member:removed', data });
       this.triggerConversationHandlers('conversation:member:removed', data);
     });
 
     // Typing events
-    this.socket.on('typing:update', (data: any) => {
+    this.onInbound('typing:update', (data) => {
       this.addEvent('message', { typing: 'update', data });
       this.triggerTypingHandlers(data.conversationId, data.typingUsers);
     });
 
     // User status events
-    this.socket.on('user:status', (data: any) => {
+    this.onInbound('user:status', (data) => {
       this.addEvent('message', { user: 'status', data });
-      this.triggerUserStatusHandlers(data.userId, data.status);
+      this.triggerUserStatusHandlers(data.userId, data.status, data.lastSeenAt);
     });
     
     // Reaction events - newly added
-    this.socket.on('message:reaction:added', (data: any) => {
+    this.onInbound('message:reaction:added', (data) => {
       console.log('WebSocketService: Received message:reaction:added event:', data);
       this.addEvent('message', { reaction: 'added', data });
       this.triggerMessageHandlers('message:reaction:added', data);
     });
     
-    this.socket.on('message:reaction:removed', (data: any) => {
+    this.onInbound('message:reaction:removed', (data) => {
       console.log('WebSocketService: Received message:reaction:removed event:', data);
       this.addEvent('message', { reaction: 'removed', data });
       this.triggerMessageHandlers('message:reaction:removed', data);
     });
     
     // Mention events - newly added
-    this.socket.on('message:mention', (data: any) => {
+    this.onInbound('message:mention', (data) => {
       console.log('WebSocketService: Received message:mention event:', data);
       this.addEvent('message', { mention: true, data });
       this.triggerMessageHandlers('message:mention', data);
     });
   }
 
-  // Send a message to a conversation
-  sendMessage(conversationId: string, message: any): void {
-    if (!this.socket || this.status !== 'connected') {
-      this.addEvent('error', { error: 'Cannot send message: WebSocket is not connected' });
-      return;
+  // Register a socket listener that receives the validated, normalized payload
+  private onInbound<E extends ServerToClientEventName>(
+    event: E,
+    listener: (data: ServerToClientEventPayloads[E]) => void
+  ): void {
+    const socket = this.socket as Socket | null;
+    socket?.on(event as string, (payload: unknown) => {
+      const data = this.normalizeInbound(event, payload);
+      if (data) {
+        listener(data);
+      }
+    });
+  }
+
+  // Apply the validation policy to an inbound payload; null means drop it
+  private normalizeInbound<E extends ServerToClientEventName>(
+    event: E,
+    payload: unknown
+  ): ServerToClientEventPayloads[E] | null {
+    const result = validateServerEvent(event, payload);
+    if (result.ok) {
+      return normalizeEventTimestamps(event, result.value);
     }
 
+    // Invalid payloads are still unwrapped and normalized, so handlers see the declared shape wherever possible
+    const unwrapped = this.normalizeInvalidTimestamps(event, (result.value ?? payload) as ServerToClientEventPayloads[E]);
+    if (this.validationPolicy === 'pass-through') {
+      return unwrapped;
+    }
+
+    console.warn(`WebSocketService: Invalid '${event}' payload (${this.validationPolicy}):`, result.issues);
+    this.addEvent('validation:error', {
+      event,
+      issues: result.issues,
+      payload,
+      dropped: this.validationPolicy === 'drop',
+    });
+
+    return this.validationPolicy === 'warn' ? unwrapped : null;
+  }
+
+  // Best effort for payloads that failed validation; anything too malformed to normalize is dispatched as it is
+  private normalizeInvalidTimestamps<E extends ServerToClientEventName>(
+    event: E,
+    payload: ServerToClientEventPayloads[E]
+  ): ServerToClientEventPayloads[E] {
+    if (typeof payload !== 'object' || payload === null) return payload;
     try {
-      this.socket.emit('message:send', {
+      return normalizeEventTimestamps(event, payload);
+    } catch {
+      return payload;
+    }
+  }
+
+  // Send a message to a conversation, queueing it while disconnected
+  // Resolves with the persisted message once the server acknowledges it
+  sendMessage(
+    conversationId: string,
+    message: SendMessageDto,
+    options: SendMessageOptions = {}
+  ): Promise<ConversationChannelMessage> {
+    const clientMessageId = message.clientMessageId || generateId();
+
+    return new Promise((resolve, reject) => {
+      this.pendingSends.set(clientMessageId, {
         conversationId,
-        message
+        timeoutMs: options.timeoutMs ?? this.ackTimeoutMs,
+        resolve,
+        reject,
       });
-      this.addEvent('message', { sent: true, conversationId, message });
-    } catch (error) {
-      this.addEvent('error', { error: `Failed to send message: ${error}` });
+
+      this.outbox
+        .enqueue(
+          'message:send',
+          { conversationId, clientMessageId, message: { ...message, clientMessageId } },
+          clientMessageId
+        )
+        .then(() => this.flushOutbox());
+    });
+  }
+
+  // Send a failed message again through its existing outbox item, so it is never queued twice
+  // Resolves like sendMessage once the server acknowledges it
+  retrySend(clientMessageId: string, options: SendMessageOptions = {}): Promise<ConversationChannelMessage> {
+    const item = this.outbox.getItems().find(i => i.id === clientMessageId);
+    if (item?.event !== 'message:send') {
+      return Promise.reject(new Error(`No queued send for message ${clientMessageId}`));
     }
+    const { conversationId } = item.payload as ClientToServerEventPayloads['message:send'];
+
+    return new Promise((resolve, reject) => {
+      this.pendingSends.set(clientMessageId, {
+        conversationId,
+        timeoutMs: options.timeoutMs ?? this.ackTimeoutMs,
+        resolve,
+        reject,
+      });
+      this.retryOutboxItem(clientMessageId);
+    });
   }
 
   // Send typing indicator
   sendTypingStart(conversationId: string): void {
-    if (!this.socket || this.status !== 'connected') return;
-    
-    this.socket.emit('typing:start', { conversationId });
+    this.queueEmit('typing:start', { conversationId });
   }
 
   // Send stopped typing indicator
   sendTypingStop(conversationId: string): void {
-    if (!this.socket || this.status !== 'connected') return;
-    
-    this.socket.emit('typing:stop', { conversationId });
+    this.queueEmit('typing:stop', { conversationId });
   }
 
   // Mark messages as read
   markMessagesRead(conversationId: string): void {
+    this.queueEmit('message:read', { conversationId });
+  }
+
+  // Tell the sender a message reached this client
+  // Not queued: messages only arrive while connected
+  markMessageDelivered(conversationId: string, messageId: string): void {
     if (!this.socket || this.status !== 'connected') return;
-    
-    this.socket.emit('message:read', { conversationId });
+
+    this.socket.emit('message:delivered', { conversationId, messageId });
+  }
+
+  // Report this user's status to others; the latest is re-sent after every reconnect
+  // Not queued: a status that was never sent is stale by the time it could be
+  updatePresence(status: UserStatusPayload['status']): void {
+    if (status === this.ownPresence) return;
+    this.ownPresence = status;
+    this.announcePresence();
   }
 
-  // Join a conversation
+  // Join a conversation; joined rooms are rejoined after every reconnect
   joinConversation(conversationId: string): void {
-    if (!this.socket || this.status !== 'connected') {
-      console.warn(`Cannot join conversation ${conversationId}: socket not connected (status: ${this.status})`);
-      return;
+    this.joinedConversations.add(conversationId);
+
+    if (!this.isConnected()) {
+      console.warn(`Queueing join for conversation ${conversationId}: socket not connected (status: ${this.status})`);
     }
     
-    console.log(`Joining conversation room: ${conversationId}`);
-    this.socket.emit('conversation:join', { conversationId });
-    
-    // Add an event to the log
-    this.addEvent('message', { 
-      action: 'join',
-      conversationId,
-      timestamp: new Date().toISOString()
-    });
+    this.queueEmit('conversation:join', { conversationId });
   }
 
   // Leave a conversation
   leaveConversation(conversationId: string): void {
+    this.forgetConversation(conversationId);
+
     if (!this.socket || this.status !== 'connected') return;
     
     this.socket.emit('conversation:leave', { conversationId });
   }
 
+  // Subscribe to outbox changes; returns an unsubscribe function
+  onOutboxChange(listener: OutboxListener): Unsubscribe {
+    return this.outbox.subscribe(listener);
+  }
+
+  // Get queued, in-flight, sent and failed emits
+  getOutboxItems(): OutboxItem[] {
+    return this.outbox.getItems();
+  }
+
+  // Queue a failed emit for another attempt
+  retryOutboxItem(id: string): void {
+    this.outbox.retry(id).then(() => this.flushOutbox());
+  }
+
+  // Drop a queued or failed emit
+  discardOutboxItem(id: string): void {
+    this.outbox.discard(id);
+  }
+
   // Register message event handlers
-  onMessageEvent(event: string, handler: MessageHandler): void {
-    if (!this.messageHandlers.has(event)) {
-      this.messageHandlers.set(event, []);
-    }
-    this.messageHandlers.get(event)?.push(handler);
+  onMessageEvent<E extends MessageEventName>(event: E, handler: MessageHandler<E>): Unsubscribe {
+    this.messageHandlers.add(event, handler);
+    return () => this.offMessageEvent(event, handler);
   }
 
   // Remove message event handler
-  offMessageEvent(event: string, handler: MessageHandler): void {
-    const handlers = this.messageHandlers.get(event) || [];
-    this.messageHandlers.set(
-      event,
-      handlers.filter(h => h !== handler)
-    );
+  offMessageEvent<E extends MessageEventName>(event: E, handler: MessageHandler<E>): void {
+    this.messageHandlers.remove(event, handler);
   }
 
   // Register conversation event handlers
-  onConversationEvent(event: string, handler: ConversationHandler): void {
-    if (!this.conversationHandlers.has(event)) {
-      this.conversationHandlers.set(event, []);
-    }
-    this.conversationHandlers.get(event)?.push(handler);
+  onConversationEvent<E extends ConversationEventName>(event: E, handler: ConversationHandler<E>): Unsubscribe {
+    this.conversationHandlers.add(event, handler);
+    return () => this.offConversationEvent(event, handler);
+  }
+
+  // Remove conversation event handler
+  offConversationEvent<E extends ConversationEventName>(event: E, handler: ConversationHandler<E>): void {
+    this.conversationHandlers.remove(event, handler);
   }
 
   // Register typing update handler
-  onTypingUpdate(conversationId: string, handler: TypingUpdateHandler): void {
+  onTypingUpdate(conversationId: string, handler: TypingUpdateHandler): Unsubscribe {
     const key = conversationId || 'all';
     if (!this.typingHandlers.has(key)) {
       this.typingHandlers.set(key, []);
     }
     this.typingHandlers.get(key)?.push(handler);
+    return () => this.offTypingUpdate(conversationId, handler);
+  }
+
+  // Remove typing update handler
+  offTypingUpdate(conversationId: string, handler: TypingUpdateHandler): void {
+    const key = conversationId || 'all';
+    this.typingHandlers.set(key, (this.typingHandlers.get(key) || []).filter(h => h !== handler));
+  }
+
+  // Register user status handler
+  onUserStatus(handler: UserStatusHandler): Unsubscribe {
+    this.userStatusHandlers.push(handler);
+    return () => this.offUserStatus(handler);
+  }
+
+  // Remove user status handler
+  offUserStatus(handler: UserStatusHandler): void {
+    this.userStatusHandlers = this.userStatusHandlers.filter(h => h !== handler);
   }
 
   // Trigger message handlers
-  private triggerMessageHandlers(event: string, data: any): void {
-    const handlers = this.messageHandlers.get(event) || [];
+  private triggerMessageHandlers<E extends MessageEventName>(event: E, data: ServerToClientEventPayloads[E]): void {
+    const handlers = this.messageHandlers.get(event);
     handlers.forEach(handler => handler(data));
   }
 
   // Trigger conversation handlers
-  private triggerConversationHandlers(event: string, data: any): void {
-    const handlers = this.conversationHandlers.get(event) || [];
+  private triggerConversationHandlers<E extends ConversationEventName>(
+    event: E,
+    data: ServerToClientEventPayloads[E]
+  ): void {
+    const handlers = this.conversationHandlers.get(event);
     console.log(`WebSocketService: Triggering ${handlers.length} handlers for event '${event}'`);
     
     if (handlers.length === 0) {
@@ -387,18 +752,35 @@ export class WebSocketService {
   }
 
   // Trigger user status handlers
-  private triggerUserStatusHandlers(userId: string, status: 'online' | 'offline'): void {
-    // If we add specific user status handlers in the future, we would call them here
+  private triggerUserStatusHandlers(userId: string, status: UserPresenceStatus, lastSeenAt?: string): void {
+    this.userStatusHandlers.forEach(handler => handler(userId, status, lastSeenAt));
   }
 
   // Register status change callback
-  onStatusChange(callback: (status: WebSocketStatus) => void): void {
+  onStatusChange(callback: StatusChangeHandler): Unsubscribe {
     this.statusChangeCallbacks.push(callback);
+    return () => this.offStatusChange(callback);
+  }
+
+  // Remove status change callback
+  offStatusChange(callback: StatusChangeHandler): void {
+    this.statusChangeCallbacks = this.statusChangeCallbacks.filter(c => c !== callback);
   }
 
   // Register event log callback
-  onEventLog(callback: (events: WebSocketEvent[]) => void): void {
+  onEventLog(callback: EventLogHandler): Unsubscribe {
     this.eventLogCallbacks.push(callback);
+    return () => this.offEventLog(callback);
+  }
+
+  // Remove event log callback
+  offEventLog(callback: EventLogHandler): void {
+    this.eventLogCallbacks = this.eventLogCallbacks.filter(c => c !== callback);
+  }
+
+  // Group listeners so they can be removed together, e.g. in an effect cleanup
+  createScope(): WebSocketListenerScope {
+    return new WebSocketListenerScope(this);
   }
 
   // Get current status
@@ -423,14 +805,7 @@ export class WebSocketService {
       return false;
     }
     
-    // This is a Socket.io specific way to check if we're in a room
-    // It's not part of the official API but works in most cases
-    const rooms = this.socket.rooms;
-    if (rooms) {
-      return rooms.has(`conversation:${conversationId}`);
-    }
-    
-    return false;
+    return this.joinedConversations.has(conversationId);
   }
 
   // Get all rooms we're joined to
@@ -439,18 +814,255 @@ export class WebSocketService {
       return [];
     }
     
-    // This is a Socket.io specific way to get all rooms
-    const rooms = this.socket.rooms;
-    if (rooms) {
-      return Array.from(rooms as Set<string>).filter(room => 
-        typeof room === 'string' && room.startsWith('conversation:')
-      );
+    return Array.from(this.joinedConversations, conversationId => `conversation:${conversationId}`);
+  }
+
+  // Handshake rejections from the gateway's auth middleware
+  private isAuthError(error: Error): boolean {
+    const data = (error as Error & { data?: { status?: number; code?: string } }).data;
+    return data?.status === 401 ||
+      data?.code === 'unauthorized' ||
+      /unauthori[sz]ed|authentication|invalid token|jwt expired/i.test(error.message);
+  }
+
+  // Refresh credentials once per connection attempt and reconnect
+  // Socket.io does not retry on its own after a middleware rejection
+  private async refreshAuthAndReconnect(): Promise<void> {
+    if (this.authRefreshAttempted || !this.authProvider.refresh) return;
+    this.authRefreshAttempted = true;
+
+    const refreshed = await this.authProvider.refresh().catch(() => false);
+    if (refreshed && this.socket && !this.socket.active) {
+      this.addEvent('open', { reconnecting: true, reason: 'auth refreshed' });
+      this.setStatus('connecting');
+      this.socket.connect();
     }
-    
-    return [];
   }
 
   // Private methods
+  private isConnected(): boolean {
+    return !!this.socket && this.status === 'connected';
+  }
+
+  // Add an emit to the outbox and send it right away if we can
+  private queueEmit<E extends OutboxEventName>(event: E, payload: ClientToServerEventPayloads[E]): void {
+    this.outbox.enqueue(event, payload).then(() => this.flushOutbox());
+  }
+
+  // Sends that failed without the server refusing them, e.g. an ack timeout while the
+  // connection was flaky, get another attempt on every reconnect
+  private retryFailedSends(): void {
+    this.outbox
+      .requeueFailed(item => item.event === 'message:send' && item.errorCode !== 'rejected')
+      .then(() => this.flushOutbox());
+  }
+
+  // Send queued emits in order while connected
+  private flushOutbox(): void {
+    this.outbox.flush((item) => this.emitOutboxItem(item), () => this.isConnected());
+  }
+
+  private async emitOutboxItem(item: OutboxItem): Promise<void> {
+    if (!this.socket) {
+      throw new Error('WebSocket is not connected');
+    }
+
+    if (item.event === 'message:send') {
+      await this.emitMessageWithAck(item.payload as ClientToServerEventPayloads['message:send']);
+      return;
+    }
+
+    try {
+      (this.socket as Socket).emit(item.event, item.payload);
+    } catch (error) {
+      this.addEvent('error', { error: `Failed to send ${item.event}: ${error}` });
+      throw error;
+    }
+
+    if (item.event === 'conversation:join') {
+      console.log(`Joined conversation room: ${item.payload.conversationId}`);
+      this.addEvent('message', { 
+        action: 'join',
+        conversationId: item.payload.conversationId,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  // Dispatch a message to message:new handlers once, tracking it as the latest seen
+  private dispatchNewMessage(message: ConversationChannelMessage, backfilled = false): void {
+    if (!this.acceptMessage('message:new', message)) return;
+
+    const lastSeen = this.lastSeenMessages.get(message.conversationId);
+    if (!lastSeen || message.createdAt >= lastSeen.createdAt) {
+      this.lastSeenMessages.set(message.conversationId, { id: message.id, createdAt: message.createdAt });
+    }
+
+    this.addEvent('message', { received: true, message, backfilled });
+    this.triggerMessageHandlers('message:new', message);
+
+    if (this.deliveryReceipts && message.senderId !== this.userId) {
+      this.markMessageDelivered(message.conversationId, message.id);
+    }
+  }
+
+  // Re-emit joins for every room joined before the connection dropped
+  private rejoinConversations(): void {
+    this.joinedConversations.forEach(conversationId => {
+      console.log(`WebSocketService: Rejoining conversation room: ${conversationId}`);
+      this.queueEmit('conversation:join', { conversationId });
+    });
+  }
+
+  private announcePresence(): void {
+    if (!this.ownPresence || !this.socket || this.status !== 'connected') return;
+
+    this.socket.emit('user:status', { status: this.ownPresence });
+  }
+
+  private forgetConversation(conversationId: string): void {
+    this.joinedConversations.delete(conversationId);
+    this.lastSeenMessages.delete(conversationId);
+  }
+
+  // Fetch messages sent while we were disconnected and dispatch them as message:new
+  private async backfillMissedMessages(): Promise<void> {
+    const since = this.lastDisconnectedAt;
+    if (!since || !this.userId) return;
+
+    const userId = this.userId;
+    await Promise.all(Array.from(this.joinedConversations, async conversationId => {
+      try {
+        const missed = await this.fetchMessagesSince(conversationId, userId, this.lastSeenMessages.get(conversationId), since);
+        if (this.userId !== userId) return;
+
+        if (missed.length > 0) {
+          console.log(`WebSocketService: Backfilling ${missed.length} messages for conversation ${conversationId}`);
+        }
+        missed.forEach(message => this.dispatchNewMessage(message, true));
+      } catch (error) {
+        // We lost access while disconnected; stop rejoining the room
+        if (error instanceof ForbiddenError || error instanceof NotFoundError) {
+          this.forgetConversation(conversationId);
+        }
+        this.addEvent('error', { error: `Failed to backfill conversation ${conversationId}: ${error}` });
+      }
+    }));
+  }
+
+  // Page backwards through history until we reach the last message we saw
+  private async fetchMessagesSince(
+    conversationId: string,
+    userId: string,
+    lastSeen: LastSeenMessage | undefined,
+    disconnectedAt: string
+  ): Promise<ConversationChannelMessage[]> {
+    const cutoff = lastSeen?.createdAt ?? disconnectedAt;
+    const missed: ConversationChannelMessage[] = [];
+    let before: string | undefined;
+
+    for (let page = 0; page < BACKFILL_MAX_PAGES; page++) {
+      const messages = await ConversationService.getMessages(conversationId, userId, {
+        limit: BACKFILL_PAGE_SIZE,
+        before,
+      });
+      const sorted = [...messages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      const lastSeenIndex = lastSeen ? sorted.findIndex(m => m.id === lastSeen.id) : -1;
+      const newer = lastSeenIndex >= 0
+        ? sorted.slice(lastSeenIndex + 1)
+        : sorted.filter(m => m.createdAt > cutoff);
+
+      missed.unshift(...newer);
+
+      // Stop once this page reaches back past the gap
+      if (lastSeenIndex >= 0 || newer.length < sorted.length || messages.length < BACKFILL_PAGE_SIZE) {
+        break;
+      }
+      before = sorted[0].id;
+    }
+
+    return missed;
+  }
+
+  // Emit message:send and wait for the server to acknowledge it
+  private async emitMessageWithAck(payload: ClientToServerEventPayloads['message:send']): Promise<void> {
+    const { clientMessageId, conversationId } = payload;
+    const timeoutMs = this.pendingSends.get(clientMessageId)?.timeoutMs ?? this.ackTimeoutMs;
+
+    let response: MessageSendAck;
+    const sentAt = Date.now();
+    try {
+      response = await this.socket!.timeout(timeoutMs).emitWithAck('message:send', payload);
+    } catch {
+      throw this.failSend(new MessageSendError(
+        `No acknowledgement for message ${clientMessageId} within ${timeoutMs}ms`,
+        'timeout',
+        clientMessageId,
+        conversationId
+      ));
+    }
+
+    if (!response?.success) {
+      throw this.failSend(new MessageSendError(
+        `Message rejected: ${response?.error ?? 'unknown error'}`,
+        'rejected',
+        clientMessageId,
+        conversationId,
+        response?.code
+      ));
+    }
+
+    const result = validateServerEvent('message:sent', response.message);
+    if (!result.ok) {
+      this.addEvent('validation:error', { event: 'message:send ack', issues: result.issues, payload: response });
+      throw this.failSend(new MessageSendError(
+        'Message acknowledgement did not contain a valid message',
+        'invalid-ack',
+        clientMessageId,
+        conversationId
+      ));
+    }
+
+    // The acknowledged message is stamped with the server's time, which samples its clock
+    serverClock.observe(result.value.createdAt, sentAt);
+    // Carries the client ID so a placeholder whose send had already been given up on is replaced
+    const message = { ...normalizeEventTimestamps('message:sent', result.value), clientMessageId };
+    this.addEvent('message', { sent: true, conversationId, clientMessageId, message });
+
+    // The ack stands in for the message:sent echo, which is suppressed when it arrives
+    if (this.acceptMessage('message:sent', message, clientMessageId)) {
+      this.triggerMessageHandlers('message:sent', message);
+    }
+  }
+
+  // Resolve a pending send from its ack or echo; returns false for repeats of a message
+  private acceptMessage(
+    event: 'message:new' | 'message:sent',
+    message: ConversationChannelMessage,
+    clientMessageId = message.clientMessageId ?? message.metadata?.clientMessageId
+  ): boolean {
+    if (clientMessageId) {
+      const pending = this.pendingSends.get(clientMessageId);
+      if (pending) {
+        this.pendingSends.delete(clientMessageId);
+        pending.resolve(message);
+      }
+    }
+
+    return this.dispatchedMessageIds[event].add(message.id);
+  }
+
+  private failSend(error: MessageSendError): MessageSendError {
+    this.addEvent('error', { error: error.message, code: error.code, clientMessageId: error.clientMessageId });
+
+    const pending = this.pendingSends.get(error.clientMessageId);
+    if (pending) {
+      this.pendingSends.delete(error.clientMessageId);
+      pending.reject(error);
+    }
+    return error;
+  }
+
   private setStatus(status: WebSocketStatus): void {
     this.status = status;
     this.notifyStatusChangeCallbacks();
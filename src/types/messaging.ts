@@ -44,7 +44,8 @@ export interface UserProfile {
   isAdmin: boolean;
   createdAt: string;
   updatedAt: string;
-  status?: 'online' | 'offline' | 'away' | 'dnd'; // Client-side status
+  status?: UserPresenceStatus; // Client-side status
+  lastSeenAt?: string; // Client-side, from user:status events
 }
 
 export interface ConversationChannel {
@@ -74,6 +75,7 @@ export interface ConversationChannelMember {
   addedBy?: string;
   addedByUser?: UserProfile;
   lastReadAt?: string;
+  lastReadMessageId?: string; // Client-side, from message:read events that name the message
   createdAt: string;
   updatedAt: string;
 }
@@ -97,10 +99,16 @@ export interface ConversationChannelMessage {
   reactions?: ConversationChannelMessageReaction[];
   mentions?: ConversationChannelMessageMention[];
   editHistory?: ConversationChannelMessageEditHistory[];
+  clientMessageId?: string; // Echoed back from SendMessageDto
+  sendState?: MessageSendState; // Client-side, only on optimistic messages the server hasn't confirmed
+  sendError?: string; // Client-side, why a failed send failed
   createdAt: string;
   updatedAt: string;
 }
 
+// Optimistic messages are pending until confirmed, or failed until retried or discarded
+export type MessageSendState = 'pending' | 'failed';
+
 export interface ConversationChannelMessageAttachment {
   id: string;
   messageId: string;
@@ -110,6 +118,9 @@ export interface ConversationChannelMessageAttachment {
   fileSize?: number;
   fileType: string;
   thumbnailUrl?: string;
+  width?: number;
+  height?: number;
+  blurhash?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -173,6 +184,9 @@ export interface MessageAttachmentDto {
   fileSize?: number;
   fileType: string;
   thumbnailUrl?: string;
+  width?: number;     // Image dimensions after client-side processing
+  height?: number;
+  blurhash?: string;  // Placeholder shown while the image loads
 }
 
 /**
@@ -194,6 +208,7 @@ export interface SendMessageDto {
   attachments?: MessageAttachmentDto[];
   mentions?: MessageMentionDto[];   
   metadata?: Record<string, any>;
+  clientMessageId?: string; // Client-generated ID used to correlate acks and echoes
 }
 
 // Bot types for testing
@@ -258,4 +273,141 @@ export type WebSocketMessageType =
   | 'reaction_add'
   | 'reaction_remove'
   | 'user_mention'
-  | 'bot_command'; 
\ No newline at end of file
+  | 'bot_command'; 
+
+// Presence status reported for a user
+export const USER_PRESENCE_STATUSES = ['online', 'offline', 'away', 'dnd'] as const;
+export type UserPresenceStatus = typeof USER_PRESENCE_STATUSES[number];
+
+// Socket event payloads - server to client, after normalization
+
+export interface MessageRemovedEventPayload {
+  messageId: string;
+  conversationId: string;
+}
+
+export interface MessageReadEventPayload {
+  conversationId: string;
+  userId: string;
+  timestamp?: string;
+  messageId?: string;
+}
+
+// Sent by a recipient's client once a message has reached it
+export interface MessageDeliveredEventPayload {
+  conversationId: string;
+  messageId: string;
+  userId: string;
+  timestamp?: string;
+}
+
+export interface MessageReactionEventPayload {
+  messageId: string;
+  conversationId?: string;
+  userId?: string;
+  emoji?: string;
+  reaction?: ConversationChannelMessageReaction;
+}
+
+export interface MessageMentionEventPayload {
+  conversationId: string;
+  messageId?: string;
+  message?: ConversationChannelMessage;
+  mentionedUserId?: string;
+}
+
+// Updates may carry only the fields that changed
+export interface ConversationUpdatedEventPayload {
+  conversation: Partial<ConversationChannel> & Pick<ConversationChannel, 'id'>;
+  updatedBy?: string;
+}
+
+export interface ConversationMembershipEventPayload {
+  conversationId: string;
+  userId: string;
+}
+
+export interface ConversationMemberAddedEventPayload extends ConversationMembershipEventPayload {
+  addedBy?: string;
+}
+
+export interface ConversationMemberRemovedEventPayload extends ConversationMembershipEventPayload {
+  removedBy?: string;
+}
+
+export interface TypingUpdateEventPayload {
+  conversationId: string;
+  typingUsers: string[];
+}
+
+export interface UserStatusEventPayload {
+  userId: string;
+  status: UserPresenceStatus;
+  // When the user was last active; sent with offline and away
+  lastSeenAt?: string;
+}
+
+export interface ServerToClientEventPayloads {
+  'message:new': ConversationChannelMessage;
+  'message:sent': ConversationChannelMessage;
+  'message:updated': ConversationChannelMessage;
+  'message:deleted': MessageRemovedEventPayload;
+  'message:unsent': MessageRemovedEventPayload;
+  'message:read': MessageReadEventPayload;
+  'message:delivered': MessageDeliveredEventPayload;
+  'message:reaction:added': MessageReactionEventPayload;
+  'message:reaction:removed': MessageReactionEventPayload;
+  'message:mention': MessageMentionEventPayload;
+  'conversation:new': ConversationChannel;
+  'conversation:updated': ConversationUpdatedEventPayload;
+  'conversation:joined': ConversationMembershipEventPayload;
+  'conversation:left': ConversationMembershipEventPayload;
+  'conversation:member:added': ConversationMemberAddedEventPayload;
+  'conversation:member:removed': ConversationMemberRemovedEventPayload;
+  'typing:update': TypingUpdateEventPayload;
+  'user:status': UserStatusEventPayload;
+}
+
+// Socket event payloads - client to server
+
+export interface ConversationRoomPayload {
+  conversationId: string;
+}
+
+// Statuses a user can report for themselves; offline is set by the server on disconnect
+export interface UserStatusPayload {
+  status: Exclude<UserPresenceStatus, 'offline'>;
+}
+
+export interface MessageDeliveredPayload {
+  conversationId: string;
+  messageId: string;
+}
+
+export interface SendMessageEventPayload {
+  conversationId: string;
+  clientMessageId: string;
+  message: SendMessageDto;
+}
+
+// Acknowledgement returned by the server for message:send
+export type MessageSendAck =
+  | { success: true; message: ConversationChannelMessage }
+  | { success: false; error: string; code?: string };
+
+export interface ClientToServerEventPayloads {
+  'message:send': SendMessageEventPayload;
+  'message:read': ConversationRoomPayload;
+  'message:delivered': MessageDeliveredPayload;
+  'typing:start': ConversationRoomPayload;
+  'typing:stop': ConversationRoomPayload;
+  'conversation:join': ConversationRoomPayload;
+  'conversation:leave': ConversationRoomPayload;
+  'user:status': UserStatusPayload;
+}
+
+export type ServerToClientEventName = keyof ServerToClientEventPayloads;
+export type ClientToServerEventName = keyof ClientToServerEventPayloads;
+
+export type MessageEventName = Extract<ServerToClientEventName, `message:${string}`>;
+export type ConversationEventName = Extract<ServerToClientEventName, `conversation:${string}`>;